@@ -0,0 +1,3 @@
+-- Record both sides of an integrity check for each transferred file
+ALTER TABLE file_transfer_logs ADD COLUMN IF NOT EXISTS source_checksum VARCHAR(128);
+ALTER TABLE file_transfer_logs ADD COLUMN IF NOT EXISTS destination_checksum VARCHAR(128);
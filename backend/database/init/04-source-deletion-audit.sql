@@ -0,0 +1,2 @@
+-- Record when a moved file was removed from the source
+ALTER TABLE file_transfer_logs ADD COLUMN IF NOT EXISTS source_deleted_at TIMESTAMP;
@@ -0,0 +1,4 @@
+-- Per-file checkpoints so paused or interrupted transfers can pick up where they stopped
+ALTER TABLE file_transfer_logs ADD COLUMN IF NOT EXISTS upload_session JSONB;
+ALTER TABLE file_transfer_logs ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+CREATE UNIQUE INDEX IF NOT EXISTS idx_file_transfer_logs_job_file ON file_transfer_logs(transfer_job_id, file_path) WHERE transfer_job_id IS NOT NULL;
@@ -0,0 +1,4 @@
+-- Failed files keep the provider error code; retries run as child jobs of the original
+ALTER TABLE file_transfer_logs ADD COLUMN IF NOT EXISTS error_code VARCHAR(50);
+ALTER TABLE transfer_jobs ADD COLUMN IF NOT EXISTS parent_transfer_id UUID REFERENCES transfer_jobs(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_transfer_jobs_parent ON transfer_jobs(parent_transfer_id);
@@ -0,0 +1,3 @@
+-- Every retry of a file is appended to its log row
+ALTER TABLE file_transfer_logs ADD COLUMN IF NOT EXISTS retry_count INTEGER DEFAULT 0;
+ALTER TABLE file_transfer_logs ADD COLUMN IF NOT EXISTS retry_history JSONB DEFAULT '[]';
@@ -0,0 +1,17 @@
+-- Last synced state of every path of a two-way sync, for three-way comparison
+CREATE TABLE IF NOT EXISTS sync_baselines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sync_job_id UUID NOT NULL REFERENCES sync_jobs(id) ON DELETE CASCADE,
+    relative_path TEXT NOT NULL,
+    file_type VARCHAR(10) NOT NULL CHECK (file_type IN ('file', 'folder')),
+    source_file_id TEXT,
+    source_size BIGINT,
+    source_modified_at TIMESTAMP,
+    source_checksum VARCHAR(128),
+    destination_file_id TEXT,
+    destination_size BIGINT,
+    destination_modified_at TIMESTAMP,
+    destination_checksum VARCHAR(128),
+    synced_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (sync_job_id, relative_path)
+);
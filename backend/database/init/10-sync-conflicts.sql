@@ -0,0 +1,13 @@
+-- Conflicts found by syncs and how each was resolved, for later review
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sync_job_id UUID NOT NULL REFERENCES sync_jobs(id) ON DELETE CASCADE,
+    relative_path TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    resolution VARCHAR(20) NOT NULL CHECK (resolution IN ('skipped', 'renamed', 'overwritten')),
+    kept_side VARCHAR(20) CHECK (kept_side IN ('source', 'destination')),
+    conflict_copy_path TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_job ON sync_conflicts(sync_job_id, created_at DESC);
@@ -0,0 +1,24 @@
+-- One row per sync execution, with what it did
+CREATE TABLE IF NOT EXISTS sync_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sync_job_id UUID NOT NULL REFERENCES sync_jobs(id) ON DELETE CASCADE,
+    triggered_by VARCHAR(20) NOT NULL CHECK (triggered_by IN ('cron', 'manual', 'api')),
+    status VARCHAR(20) DEFAULT 'running' CHECK (status IN ('running', 'completed', 'partial', 'failed', 'cancelled')),
+    files_processed INTEGER DEFAULT 0,
+    files_added INTEGER DEFAULT 0,
+    files_updated INTEGER DEFAULT 0,
+    files_deleted INTEGER DEFAULT 0,
+    files_failed INTEGER DEFAULT 0,
+    conflicts INTEGER DEFAULT 0,
+    bytes_transferred BIGINT DEFAULT 0,
+    error_message TEXT,
+    started_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_job ON sync_runs(sync_job_id, started_at DESC);
+
+-- Files handled by a sync, per run
+ALTER TABLE file_transfer_logs ADD COLUMN IF NOT EXISTS sync_run_id UUID REFERENCES sync_runs(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_file_transfer_logs_sync_run_id ON file_transfer_logs(sync_run_id);
@@ -0,0 +1,6 @@
+-- Runs stopped by the mass-deletion safeguard, and the deletions awaiting approval
+ALTER TABLE sync_runs DROP CONSTRAINT IF EXISTS sync_runs_status_check;
+ALTER TABLE sync_runs ADD CONSTRAINT sync_runs_status_check
+    CHECK (status IN ('running', 'completed', 'partial', 'failed', 'cancelled', 'blocked'));
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS pending_deletions JSONB;
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS deletions_approved_at TIMESTAMP;
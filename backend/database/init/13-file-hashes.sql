@@ -0,0 +1,12 @@
+-- Content hashes computed for syncs, reused while a file's size and modification time stay the same
+CREATE TABLE IF NOT EXISTS file_hashes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    cloud_provider_id UUID NOT NULL REFERENCES cloud_providers(id) ON DELETE CASCADE,
+    file_path TEXT NOT NULL,
+    algorithm VARCHAR(10) NOT NULL,
+    checksum VARCHAR(128) NOT NULL,
+    file_size BIGINT,
+    modified_at TIMESTAMP NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (cloud_provider_id, file_path, algorithm)
+);
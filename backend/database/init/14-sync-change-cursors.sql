@@ -0,0 +1,12 @@
+-- Position of each side of a sync job in its provider's change feed, with the files as of that position
+CREATE TABLE IF NOT EXISTS sync_change_cursors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sync_job_id UUID NOT NULL REFERENCES sync_jobs(id) ON DELETE CASCADE,
+    side VARCHAR(20) NOT NULL CHECK (side IN ('source', 'destination')),
+    cloud_provider_id UUID NOT NULL REFERENCES cloud_providers(id) ON DELETE CASCADE,
+    root_path TEXT NOT NULL,
+    cursor TEXT NOT NULL,
+    files JSONB NOT NULL DEFAULT '[]',
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (sync_job_id, side)
+);
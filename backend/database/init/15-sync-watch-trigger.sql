@@ -0,0 +1,4 @@
+-- Runs started by the watcher of a continuous sync
+ALTER TABLE sync_runs DROP CONSTRAINT IF EXISTS sync_runs_triggered_by_check;
+ALTER TABLE sync_runs ADD CONSTRAINT sync_runs_triggered_by_check
+    CHECK (triggered_by IN ('cron', 'manual', 'api', 'watch'));
@@ -0,0 +1,4 @@
+-- Syncs whose last run was stopped before it finished
+ALTER TABLE sync_jobs DROP CONSTRAINT IF EXISTS sync_jobs_last_sync_status_check;
+ALTER TABLE sync_jobs ADD CONSTRAINT sync_jobs_last_sync_status_check
+    CHECK (last_sync_status IN ('pending', 'running', 'completed', 'failed', 'blocked', 'cancelled'));
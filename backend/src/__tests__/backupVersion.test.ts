@@ -0,0 +1,42 @@
+import { BackupVersion } from '../utils/backupVersion';
+import { FileTreeEntry } from '../types';
+
+describe('BackupVersion', () => {
+  const entry = (relativePath: string, type: 'file' | 'folder' = 'file'): FileTreeEntry => ({
+    relativePath,
+    depth: relativePath.split('/').length - 1,
+    file: { id: relativePath, name: relativePath.split('/').pop()!, path: `/backup/${relativePath}`, type }
+  });
+
+  it('should stamp names before the extension and parse them back', () => {
+    const date = new Date(Date.UTC(2024, 2, 5, 9, 7, 3));
+
+    expect(BackupVersion.build('report.pdf', date)).toBe('report.2024-03-05_090703.pdf');
+    expect(BackupVersion.build('README', date)).toBe('README.2024-03-05_090703');
+
+    expect(BackupVersion.parse('a.tar.2024-03-05_090703.gz')).toEqual({ originalName: 'a.tar.gz', versionedAt: date });
+    expect(BackupVersion.parse('README.2024-03-05_090703')).toEqual({ originalName: 'README', versionedAt: date });
+    expect(BackupVersion.parse('report.pdf')).toBeUndefined();
+  });
+
+  it('should select versions beyond the retention policy', () => {
+    const now = new Date(Date.UTC(2024, 2, 10));
+    const entries = [
+      entry('docs', 'folder'),
+      entry('docs/a.2024-03-09_000000.txt'),
+      entry('docs/a.2024-03-08_000000.txt'),
+      entry('docs/a.2024-03-01_000000.txt'),
+      entry('docs/b.2024-03-01_000000.txt'),
+      entry('photos.2024-03-02_000000', 'folder'),
+      entry('photos.2024-03-02_000000/x.2024-01-01_000000.jpg')
+    ];
+
+    const paths = (expired: FileTreeEntry[]) => expired.map(item => item.relativePath).sort();
+
+    expect(paths(BackupVersion.selectExpired(entries, { maxVersions: 2 }, now)))
+      .toEqual(['docs/a.2024-03-01_000000.txt']);
+    expect(paths(BackupVersion.selectExpired(entries, { retentionDays: 7 }, now)))
+      .toEqual(['docs/a.2024-03-01_000000.txt', 'docs/b.2024-03-01_000000.txt', 'photos.2024-03-02_000000']);
+    expect(BackupVersion.selectExpired(entries, {}, now)).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { ChangeFeed } from '../utils/changeFeed';
+import { ICloudProvider } from '../providers/ICloudProvider';
+import { FileItem } from '../types';
+
+const file = (path: string, size = 10): FileItem =>
+  ({ id: path, name: path.split('/').pop()!, path, type: 'file', size, modifiedAt: new Date('2024-05-01T10:00:00Z') });
+const folder = (path: string): FileItem => ({ id: path, name: path.split('/').pop()!, path, type: 'folder' });
+
+const createProvider = (tree: Record<string, FileItem[]>): ICloudProvider => ({
+  listFiles: jest.fn(async (path: string) => tree[path] || [])
+} as unknown as ICloudProvider);
+
+describe('ChangeFeed', () => {
+  const before = {
+    '/docs': [folder('/docs/old'), file('/docs/a.txt'), file('/docs/b.txt')],
+    '/docs/old': [file('/docs/old/c.txt'), file('/docs/old/d.txt')]
+  };
+  const after = {
+    '/docs': [file('/docs/a.txt', 20), file('/docs/b.txt'), file('/docs/e.txt')]
+  };
+
+  it('should list every entry as created without a cursor', async () => {
+    const changeSet = await ChangeFeed.fromSnapshot(createProvider(before), '/docs');
+
+    expect(changeSet.reset).toBe(true);
+    expect(changeSet.changes).toHaveLength(5);
+    expect(changeSet.changes.every(change => change.type === 'created')).toBe(true);
+  });
+
+  it('should report changes since the cursor', async () => {
+    const first = await ChangeFeed.fromSnapshot(createProvider(before), '/docs');
+    const files = first.changes.map(change => change.file!);
+    const changeSet = await ChangeFeed.fromSnapshot(createProvider(after), '/docs', first.cursor, { files });
+
+    expect(changeSet.reset).toBe(false);
+    expect(changeSet.changes.map(change => [change.type, change.path])).toEqual([
+      ['modified', '/docs/a.txt'],
+      ['created', '/docs/e.txt'],
+      ['deleted', '/docs/old']
+    ]);
+  });
+
+  it('should walk with the caller\'s depth limit and filters', async () => {
+    const provider = createProvider(before);
+    const changeSet = await ChangeFeed.fromSnapshot(provider, '/docs', undefined, {
+      maxDepth: 0,
+      filters: { excludePatterns: ['b.txt'] }
+    });
+
+    expect(changeSet.changes.map(change => change.path)).toEqual(['/docs/old', '/docs/a.txt']);
+    expect(provider.listFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should start over from a cursor that doesn\'t name the files', async () => {
+    const { cursor, changes } = await ChangeFeed.fromSnapshot(createProvider(before), '/docs');
+    const files = changes.map(change => change.file!);
+
+    const stale = await ChangeFeed.fromSnapshot(createProvider(after), '/docs', 'not-a-cursor', { files });
+    expect(stale.reset).toBe(true);
+    expect(stale.changes).toHaveLength(3);
+
+    const withoutFiles = await ChangeFeed.fromSnapshot(createProvider(after), '/docs', cursor);
+    expect(withoutFiles.reset).toBe(true);
+    expect(cursor).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('should apply changes to a list of files', () => {
+    const files = [...before['/docs'], ...before['/docs/old']];
+
+    const updated = ChangeFeed.apply(files, [
+      { type: 'modified', path: '/docs/a.txt', file: file('/docs/a.txt', 20) },
+      { type: 'created', path: '/docs/e.txt', file: file('/docs/e.txt') },
+      { type: 'deleted', path: '/docs/old' }
+    ]);
+
+    expect(updated.map(item => item.path).sort()).toEqual(['/docs/a.txt', '/docs/b.txt', '/docs/e.txt']);
+    expect(updated.find(item => item.path === '/docs/a.txt')?.size).toBe(20);
+  });
+});
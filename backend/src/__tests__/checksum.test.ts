@@ -0,0 +1,21 @@
+import { Readable } from 'stream';
+import { ChecksumService } from '../utils/checksum';
+
+describe('ChecksumService', () => {
+  it('should hash a stream', async () => {
+    const checksum = await ChecksumService.hashStream(Readable.from([Buffer.from('hello '), Buffer.from('world')]));
+
+    expect(checksum).toBe('5eb63bbbe01eeed093cb22bb8f5acdc3');
+  });
+
+  it('should compare checksums ignoring case and quotes', () => {
+    expect(ChecksumService.matches('"5EB63BBBE01EEED093CB22BB8F5ACDC3"', '5eb63bbbe01eeed093cb22bb8f5acdc3')).toBe(true);
+    expect(ChecksumService.matches('abc', 'abd')).toBe(false);
+  });
+
+  it('should pick a hash both sides can provide when there is one', () => {
+    expect(ChecksumService.pickAlgorithm(['sha1', 'md5'], ['md5'])).toBe('md5');
+    expect(ChecksumService.pickAlgorithm([], ['sha256'])).toBe('sha256');
+    expect(ChecksumService.pickAlgorithm([], [])).toBe('md5');
+  });
+});
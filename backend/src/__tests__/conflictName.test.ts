@@ -0,0 +1,24 @@
+import { ConflictName } from '../utils/conflictName';
+
+describe('ConflictName', () => {
+  const date = new Date(2024, 2, 5, 9, 7, 3);
+
+  it('should build the default conflict name', () => {
+    expect(ConflictName.build('report.pdf', { provider: 'My NAS', date }))
+      .toBe('report (conflict from My NAS 2024-03-05).pdf');
+    expect(ConflictName.build('README', { provider: 'PikPak', date }))
+      .toBe('README (conflict from PikPak 2024-03-05)');
+  });
+
+  it('should apply custom patterns', () => {
+    expect(ConflictName.build('a.tar.gz', { provider: 'dav', date }, '{name}.{provider}-{time}{ext}'))
+      .toBe('a.tar.dav-090703.gz');
+  });
+
+  it('should fall back to the default pattern for unusable results', () => {
+    const expected = 'a (conflict from x-y 2024-03-05).txt';
+
+    expect(ConflictName.build('a.txt', { provider: 'x/y', date }, '{name}{ext}')).toBe(expected);
+    expect(ConflictName.build('a.txt', { provider: 'x/y', date }, 'copies/{name}{ext}')).toBe(expected);
+  });
+});
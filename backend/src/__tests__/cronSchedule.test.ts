@@ -0,0 +1,79 @@
+import { CronSchedule } from '../utils/cronSchedule';
+import { ScheduleOverlap } from '../utils/scheduleOverlap';
+
+describe('CronSchedule', () => {
+  const from = new Date('2024-05-06T00:00:00Z'); // a Monday
+  const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+  it('should expand an expression over a window', () => {
+    const runs = CronSchedule.between('30 2 * * *', from, new Date('2024-05-09T00:00:00Z'));
+
+    expect(iso(runs)).toEqual([
+      '2024-05-06T02:30:00.000Z',
+      '2024-05-07T02:30:00.000Z',
+      '2024-05-08T02:30:00.000Z'
+    ]);
+  });
+
+  it('should support steps, ranges, lists, names and seconds', () => {
+    expect(iso(CronSchedule.between('*/20 9-10 * * mon', from, new Date('2024-05-07T00:00:00Z')))).toEqual([
+      '2024-05-06T09:00:00.000Z',
+      '2024-05-06T09:20:00.000Z',
+      '2024-05-06T09:40:00.000Z',
+      '2024-05-06T10:00:00.000Z',
+      '2024-05-06T10:20:00.000Z',
+      '2024-05-06T10:40:00.000Z'
+    ]);
+    expect(iso(CronSchedule.between('15,45 0 0 * * 1,7', from, new Date('2024-05-13T00:00:00Z')))).toEqual([
+      '2024-05-06T00:00:15.000Z',
+      '2024-05-06T00:00:45.000Z',
+      '2024-05-12T00:00:15.000Z',
+      '2024-05-12T00:00:45.000Z'
+    ]);
+  });
+
+  it('should require day of month and day of week to both match, like node-cron', () => {
+    // The 1st of a month that falls on a Monday
+    expect(CronSchedule.next('0 0 1 * mon', from)?.toISOString()).toBe('2024-07-01T00:00:00.000Z');
+    expect(CronSchedule.next('0 0 31 2 *', from)).toBeUndefined();
+  });
+
+  it('should stop at the limit', () => {
+    expect(CronSchedule.between('* * * * *', from, new Date('2024-05-07T00:00:00Z'), 10)).toHaveLength(10);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => CronSchedule.parse('0 0 * *')).toThrow('Invalid cron expression');
+    expect(() => CronSchedule.parse('61 * * * *')).toThrow('Invalid cron expression');
+    expect(() => CronSchedule.parse('0 0 * * 1-x')).toThrow('Invalid cron expression');
+  });
+});
+
+describe('ScheduleOverlap', () => {
+  const run = (key: string, resources: string[], start: string, end: string) =>
+    ({ key, resources, startsAt: new Date(`2024-05-06T${start}:00Z`), endsAt: new Date(`2024-05-06T${end}:00Z`) });
+
+  it('should find runs of different jobs using the same account at once', () => {
+    const runs = [
+      run('a', ['pikpak', 'nas'], '01:00', '02:00'),
+      run('b', ['webdav', 'nas'], '01:30', '02:30'),
+      run('c', ['webdav', 'pikpak'], '03:00', '04:00'),
+      run('a', ['pikpak', 'nas'], '03:00', '03:10')
+    ];
+
+    const overlaps = ScheduleOverlap.find(runs);
+
+    expect(overlaps.map(overlap => [overlap.resource, overlap.runs.map(item => item.key)])).toEqual([
+      ['nas', ['a', 'b']],
+      ['pikpak', ['c', 'a']]
+    ]);
+    expect(overlaps[0].end.toISOString()).toBe('2024-05-06T02:30:00.000Z');
+  });
+
+  it('should ignore runs that only touch', () => {
+    expect(ScheduleOverlap.find([
+      run('a', ['nas'], '01:00', '02:00'),
+      run('b', ['nas'], '02:00', '03:00')
+    ])).toEqual([]);
+  });
+});
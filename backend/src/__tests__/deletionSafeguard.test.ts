@@ -0,0 +1,37 @@
+import { DeletionSafeguard } from '../utils/deletionSafeguard';
+import { SyncPendingDeletion } from '../types';
+
+describe('DeletionSafeguard', () => {
+  const entries = {
+    source: ['docs', 'docs/a.txt', 'docs/b.txt', 'photos', 'photos/1.jpg'],
+    destination: ['docs', 'docs/a.txt', 'docs/b.txt', 'photos', 'photos/1.jpg', 'notes.txt']
+  };
+
+  const deleteFolder: SyncPendingDeletion[] = [{ side: 'destination', relativePath: 'docs' }];
+
+  it('should count a deleted folder with its contents', () => {
+    expect(DeletionSafeguard.check(deleteFolder, entries, { maxDeleteCount: 3 })).toBeUndefined();
+    expect(DeletionSafeguard.check(deleteFolder, entries, { maxDeleteCount: 2 }))
+      .toBe('Sync would delete 3 entries on the destination, more than the limit of 2');
+  });
+
+  it('should check the share of each side', () => {
+    expect(DeletionSafeguard.check(deleteFolder, entries, { maxDeletePercent: 50 })).toBeUndefined();
+    expect(DeletionSafeguard.check(deleteFolder, entries, { maxDeletePercent: 40 })).toMatch(/3 of 6 entries .*\(50%\)/);
+    expect(DeletionSafeguard.check(deleteFolder, entries, { maxDeletePercent: 0 })).toBeUndefined();
+    expect(DeletionSafeguard.check(deleteFolder, entries)).toBeUndefined();
+
+    const wipeSource: SyncPendingDeletion[] = [
+      { side: 'source', relativePath: 'docs' },
+      { side: 'source', relativePath: 'photos' }
+    ];
+    expect(DeletionSafeguard.check(wipeSource, entries, { maxDeletePercent: 90 })).toMatch(/on the source/);
+  });
+
+  it('should let approved deletions through', () => {
+    const deletions: SyncPendingDeletion[] = [...deleteFolder, { side: 'destination', relativePath: 'notes.txt' }];
+
+    expect(DeletionSafeguard.check(deletions, entries, { maxDeleteCount: 1 }, deleteFolder)).toBeUndefined();
+    expect(DeletionSafeguard.check(deletions, entries, { maxDeleteCount: 0 }, deleteFolder)).toBeDefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { FileTreeWalker } from '../utils/fileTree';
+import { ICloudProvider } from '../providers/ICloudProvider';
+import { FileItem } from '../types';
+
+const file = (name: string, size = 10): FileItem => ({ id: name, name, path: '/', type: 'file', size });
+const folder = (name: string): FileItem => ({ id: name, name, path: '/', type: 'folder' });
+
+const createProvider = (tree: Record<string, FileItem[]>): ICloudProvider => ({
+  listFiles: jest.fn(async (path: string) => tree[path] || [])
+} as unknown as ICloudProvider);
+
+describe('FileTreeWalker', () => {
+  const tree = {
+    '/photos': [folder('2023'), file('cover.jpg'), folder('node_modules')],
+    '/photos/2023': [folder('summer'), file('report.pdf', 500)],
+    '/photos/2023/summer': [file('beach.jpg', 200)],
+    '/photos/node_modules': [file('index.js')]
+  };
+
+  it('should walk nested folders and build full paths', async () => {
+    const entries = await FileTreeWalker.walk(createProvider(tree), '/photos');
+
+    expect(entries.map(entry => entry.relativePath)).toEqual([
+      '2023',
+      '2023/summer',
+      '2023/summer/beach.jpg',
+      '2023/report.pdf',
+      'cover.jpg',
+      'node_modules',
+      'node_modules/index.js'
+    ]);
+    expect(entries.find(entry => entry.relativePath === '2023/summer/beach.jpg')?.file.path)
+      .toBe('/photos/2023/summer/beach.jpg');
+  });
+
+  it('should honor the maximum folder depth', async () => {
+    const entries = await FileTreeWalker.walk(createProvider(tree), '/photos', { maxDepth: 1 });
+
+    expect(entries.map(entry => entry.relativePath)).not.toContain('2023/summer/beach.jpg');
+    expect(entries.map(entry => entry.relativePath)).toContain('2023/summer');
+    expect(entries.map(entry => entry.relativePath)).toContain('2023/report.pdf');
+  });
+
+  it('should apply file filters to files and exclude patterns to folders', async () => {
+    const entries = await FileTreeWalker.walk(createProvider(tree), '/photos', {
+      filters: { includePatterns: ['*.jpg'], excludePatterns: ['node_modules'] }
+    });
+
+    expect(entries.map(entry => entry.relativePath)).toEqual([
+      '2023',
+      '2023/summer',
+      '2023/summer/beach.jpg',
+      'cover.jpg'
+    ]);
+  });
+
+  it('should build the same tree from a flat list of files', async () => {
+    const options = { filters: { excludePatterns: ['node_modules'] }, maxDepth: 1 };
+    const walked = await FileTreeWalker.walk(createProvider(tree), '/photos', options);
+
+    const files = (await FileTreeWalker.walk(createProvider(tree), '/photos')).map(entry => entry.file).reverse();
+    const built = FileTreeWalker.fromFiles('/photos/', [...files, file('/elsewhere.txt')], options);
+
+    expect(built.map(entry => entry.relativePath)).toEqual(walked.map(entry => entry.relativePath).sort());
+    expect(built.find(entry => entry.relativePath === '2023/summer')?.depth).toBe(1);
+  });
+});
@@ -0,0 +1,45 @@
+import { ModifiedTime } from '../utils/modifiedTime';
+import { ICloudProvider } from '../providers/ICloudProvider';
+import { FileItem } from '../types';
+
+describe('ModifiedTime', () => {
+  const modifiedAt = new Date('2024-03-01T10:00:00.000Z');
+  const uploaded: FileItem = {
+    id: '1',
+    name: 'a.txt',
+    path: '/a.txt',
+    type: 'file',
+    modifiedAt: new Date('2024-05-01T08:00:00.000Z')
+  };
+
+  const createProvider = (supportsModifiedTime: boolean, setModifiedTime?: jest.Mock) =>
+    ({ capabilities: { supportsModifiedTime }, setModifiedTime } as unknown as ICloudProvider);
+
+  it('should compare times within the tolerance', () => {
+    expect(ModifiedTime.isSame(modifiedAt, new Date(modifiedAt.getTime() + 1000))).toBe(true);
+    expect(ModifiedTime.isSame(modifiedAt.toISOString(), modifiedAt)).toBe(true);
+    expect(ModifiedTime.isSame(modifiedAt, undefined)).toBe(false);
+    expect(ModifiedTime.isNewer(new Date(modifiedAt.getTime() + 1000), modifiedAt)).toBe(false);
+    expect(ModifiedTime.isNewer(new Date(modifiedAt.getTime() + 5000), modifiedAt)).toBe(true);
+  });
+
+  it('should set the time on providers that support it', async () => {
+    const setModifiedTime = jest.fn().mockResolvedValue({ ...uploaded, modifiedAt });
+
+    await expect(ModifiedTime.preserve(createProvider(true, setModifiedTime), '/a.txt', uploaded, modifiedAt))
+      .resolves.toBe(true);
+    expect(setModifiedTime).toHaveBeenCalledWith('/a.txt', modifiedAt);
+  });
+
+  it('should skip providers that cannot store times', async () => {
+    const setModifiedTime = jest.fn();
+
+    await expect(ModifiedTime.preserve(createProvider(false, setModifiedTime), '/a.txt', uploaded, modifiedAt))
+      .resolves.toBe(false);
+    expect(setModifiedTime).not.toHaveBeenCalled();
+
+    // Set on upload only, and the upload already kept it
+    await expect(ModifiedTime.preserve(createProvider(true), '/a.txt', { ...uploaded, modifiedAt }, modifiedAt))
+      .resolves.toBe(true);
+  });
+});
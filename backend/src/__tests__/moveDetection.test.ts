@@ -0,0 +1,63 @@
+import { MoveCandidate, MoveDetector } from '../utils/moveDetection';
+
+describe('MoveDetector', () => {
+  const modifiedAt = new Date('2024-05-01T10:00:00Z');
+  const file = (relativePath: string, checksum: string, size = 100): MoveCandidate =>
+    ({ relativePath, type: 'file', checksum, size, modifiedAt });
+
+  const byChecksum = { compareIds: false, compareChecksums: true };
+  const withoutChecksums = { compareIds: false, compareChecksums: false };
+
+  it('should match a renamed file by checksum', () => {
+    const matches = MoveDetector.match([file('old.txt', 'aa')], [file('new.txt', 'aa'), file('other.txt', 'bb')], byChecksum);
+
+    expect(matches.map(match => [match.from.relativePath, match.to.relativePath])).toEqual([['old.txt', 'new.txt']]);
+  });
+
+  it('should match by file id before content', () => {
+    const removed = [{ ...file('a.txt', 'aa'), fileId: 'id-1' }];
+    const added = [{ ...file('b.txt', 'changed', 200), fileId: 'id-1' }];
+
+    expect(MoveDetector.match(removed, added, { compareIds: true, compareChecksums: true })).toHaveLength(1);
+    expect(MoveDetector.match(removed, added, byChecksum)).toHaveLength(0);
+  });
+
+  it('should skip ambiguous matches', () => {
+    expect(MoveDetector.match([file('a.txt', 'aa')], [file('b.txt', 'aa'), file('c.txt', 'aa')], byChecksum)).toHaveLength(0);
+    expect(MoveDetector.match([file('a.txt', 'aa'), file('b.txt', 'aa')], [file('c.txt', 'aa')], byChecksum)).toHaveLength(0);
+  });
+
+  it('should only match a file with the same name without checksums', () => {
+    expect(MoveDetector.match([file('a/x.txt', 'aa')], [file('b/x.txt', 'bb')], withoutChecksums)).toHaveLength(1);
+    expect(MoveDetector.match([file('a/x.txt', 'aa')], [file('b/y.txt', 'aa')], withoutChecksums)).toHaveLength(0);
+  });
+
+  it('should match a renamed folder by its contents', () => {
+    const oldFolder: MoveCandidate = {
+      relativePath: 'photos',
+      type: 'folder',
+      children: [file('1.jpg', 'aa'), { relativePath: 'trip', type: 'folder' }, file('trip/2.jpg', 'bb')]
+    };
+    const newFolder: MoveCandidate = {
+      relativePath: 'pictures',
+      type: 'folder',
+      children: [file('1.jpg', 'aa'), { relativePath: 'trip', type: 'folder' }, file('trip/2.jpg', 'bb'), file('3.jpg', 'cc')]
+    };
+    const movedFile = file('pictures/1.jpg', 'aa');
+
+    const matches = MoveDetector.match([oldFolder], [newFolder, movedFile], byChecksum);
+
+    // The file inside goes with the folder
+    expect(matches).toEqual([{ from: oldFolder, to: newFolder }]);
+    expect(MoveDetector.movedChildren(matches[0], byChecksum)).toEqual(['1.jpg', 'trip', 'trip/2.jpg']);
+  });
+
+  it('should not match a folder whose contents changed', () => {
+    const oldFolder: MoveCandidate = { relativePath: 'a', type: 'folder', children: [file('x.txt', 'aa')] };
+    const newFolder: MoveCandidate = { relativePath: 'b', type: 'folder', children: [file('x.txt', 'bb')] };
+    const emptyFolder: MoveCandidate = { relativePath: 'c', type: 'folder', children: [] };
+
+    expect(MoveDetector.match([oldFolder], [newFolder], byChecksum)).toHaveLength(0);
+    expect(MoveDetector.match([emptyFolder], [{ relativePath: 'd', type: 'folder', children: [] }], byChecksum)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,39 @@
+import { RetryPolicy } from '../utils/retryPolicy';
+import {
+  AuthenticationError,
+  InsufficientStorageError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError
+} from '../providers/errors';
+
+describe('RetryPolicy', () => {
+  const policy = RetryPolicy.resolve({ maxAttempts: 3, initialDelay: 100, maxDelay: 1000, backoffMultiplier: 2 });
+
+  it('should retry retryable errors until attempts run out', () => {
+    const error = new NetworkError('Connection reset', 'webdav');
+
+    expect(RetryPolicy.shouldRetry(error, 1, policy)).toBe(true);
+    expect(RetryPolicy.shouldRetry(error, 2, policy)).toBe(true);
+    expect(RetryPolicy.shouldRetry(error, 3, policy)).toBe(false);
+    expect(RetryPolicy.shouldRetry(new NotFoundError('Missing', 'webdav', '/a.txt'), 1, policy)).toBe(false);
+  });
+
+  it('should treat auth and quota errors as fatal', () => {
+    expect(RetryPolicy.isFatal(new AuthenticationError('Token expired', 'pikpak'))).toBe(true);
+    expect(RetryPolicy.isFatal(new InsufficientStorageError('Disk full', 'synology', 10, 5))).toBe(true);
+    expect(RetryPolicy.isFatal(new NetworkError('Timeout', 'pikpak'))).toBe(false);
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const error = new NetworkError('Timeout', 'pikpak');
+
+    expect(RetryPolicy.getDelay(error, 1, policy)).toBe(100);
+    expect(RetryPolicy.getDelay(error, 2, policy)).toBe(200);
+    expect(RetryPolicy.getDelay(error, 10, policy)).toBe(1000);
+  });
+
+  it('should wait at least as long as Retry-After', () => {
+    expect(RetryPolicy.getDelay(new RateLimitError('Slow down', 'pikpak', 5), 1, policy)).toBe(5000);
+  });
+});
@@ -0,0 +1,70 @@
+import { Readable } from 'stream';
+import { SegmentedUpload, UploadPart } from '../providers/SegmentedUpload';
+import { NetworkError, AuthenticationError } from '../providers/errors';
+
+describe('SegmentedUpload', () => {
+  const data = Buffer.from('abcdefghijklmnopqrstuvwxyz');
+  const session = { uploadId: 'upload-1', bytesUploaded: 0, partSize: 10 };
+
+  const createStream = (offset = 0) => Readable.from([data.subarray(offset, 13), data.subarray(Math.max(offset, 13))]);
+
+  it('should upload every part with limited parallelism', async () => {
+    const parts = new Map<number, string>();
+    let running = 0;
+    let maxRunning = 0;
+
+    const upload = new SegmentedUpload(session, createStream(), data.length, async (part: UploadPart, chunk: Buffer) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      parts.set(part.partNumber, chunk.toString());
+      running--;
+    }, { parallelParts: 2 });
+
+    const result = await upload.run();
+
+    expect([...parts.entries()].sort()).toEqual([[0, 'abcdefghij'], [1, 'klmnopqrst'], [2, 'uvwxyz']]);
+    expect(maxRunning).toBeLessThanOrEqual(2);
+    expect(result.bytesUploaded).toBe(data.length);
+    expect(upload.getProgress().progressPercentage).toBe(100);
+  });
+
+  it('should retry failed parts that are retryable', async () => {
+    const attempts = new Map<number, number>();
+
+    const upload = new SegmentedUpload(session, createStream(), data.length, async (part: UploadPart) => {
+      attempts.set(part.partNumber, (attempts.get(part.partNumber) || 0) + 1);
+      if (part.partNumber === 1 && attempts.get(1) === 1) {
+        throw new NetworkError('Connection reset', 'pikpak');
+      }
+    });
+
+    await upload.run();
+    expect(attempts.get(1)).toBe(2);
+    expect(attempts.get(0)).toBe(1);
+  });
+
+  it('should fail on errors that are not retryable', async () => {
+    const upload = new SegmentedUpload(session, createStream(), data.length, async () => {
+      throw new AuthenticationError('Token expired', 'pikpak');
+    });
+
+    await expect(upload.run()).rejects.toBeInstanceOf(AuthenticationError);
+    expect(upload.getProgress().status).toBe('failed');
+  });
+
+  it('should skip parts stored before a resume', async () => {
+    const uploaded: number[] = [];
+    const resumed = { ...session, bytesUploaded: 10, completedParts: [2] };
+
+    const upload = new SegmentedUpload(resumed, createStream(10), data.length, async (part: UploadPart) => {
+      uploaded.push(part.partNumber);
+    });
+
+    const result = await upload.run();
+
+    expect(uploaded).toEqual([1]);
+    expect(result.bytesUploaded).toBe(data.length);
+    expect(result.completedParts).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { SyncBaseline } from '../utils/syncBaseline';
+import { FileItem, FileTreeEntry, SyncBaselineEntry } from '../types';
+
+describe('SyncBaseline', () => {
+  const modifiedAt = new Date('2024-03-01T10:00:00.000Z');
+
+  const file = (relativePath: string, overrides: Partial<FileItem> = {}): FileTreeEntry => ({
+    file: { id: relativePath, name: relativePath, path: `/${relativePath}`, type: 'file', size: 10, modifiedAt, ...overrides },
+    relativePath,
+    depth: 0
+  });
+
+  const synced = (relativePath: string): SyncBaselineEntry => ({
+    relativePath,
+    fileType: 'file',
+    source: { size: 10, modifiedAt },
+    destination: { size: 10, modifiedAt },
+    syncedAt: modifiedAt
+  });
+
+  const tree = (...entries: FileTreeEntry[]) => new Map(entries.map(entry => [entry.relativePath, entry]));
+
+  it('should tell deletions from creations using the baseline', () => {
+    const diffs = SyncBaseline.diff(
+      tree(file('kept.txt'), file('new.txt')),
+      tree(file('kept.txt'), file('removed.txt')),
+      new Map([['kept.txt', synced('kept.txt')], ['removed.txt', synced('removed.txt')]])
+    );
+
+    const byPath = new Map(diffs.map(diff => [diff.relativePath, diff]));
+
+    expect(byPath.get('kept.txt')).toMatchObject({ sourceChange: 'none', destinationChange: 'none' });
+    expect(byPath.get('new.txt')).toMatchObject({ sourceChange: 'created', destinationChange: 'none' });
+    expect(byPath.get('removed.txt')).toMatchObject({ sourceChange: 'deleted', destinationChange: 'none' });
+  });
+
+  it('should detect edits by checksum, size or modification time', () => {
+    const previous = { size: 10, modifiedAt, checksum: 'abc' };
+
+    expect(SyncBaseline.detectChange(file('a', { checksum: 'abc', size: 10 }).file, previous)).toBe('none');
+    expect(SyncBaseline.detectChange(file('a', { checksum: 'def' }).file, previous)).toBe('modified');
+    expect(SyncBaseline.detectChange(file('a', { size: 20 }).file, { size: 10 })).toBe('modified');
+    expect(SyncBaseline.detectChange(
+      file('a', { modifiedAt: new Date(modifiedAt.getTime() + 60000) }).file,
+      { size: 10, modifiedAt }
+    )).toBe('modified');
+  });
+
+  it('should only compare sizes in size mode', () => {
+    const touched = file('a', { checksum: 'def', modifiedAt: new Date(modifiedAt.getTime() + 60000) }).file;
+
+    expect(SyncBaseline.detectChange(touched, { size: 10, modifiedAt, checksum: 'abc' }, 'size')).toBe('none');
+    expect(SyncBaseline.detectChange(touched, { size: 20 }, 'size')).toBe('modified');
+    expect(SyncBaseline.isSameContent(touched, file('a').file, true, 'size')).toBe(true);
+  });
+
+  it('should list folders before their contents', () => {
+    const diffs = SyncBaseline.diff(
+      tree(file('docs/b.txt'), file('docs', { type: 'folder' }), file('docs a.txt')),
+      new Map(),
+      new Map()
+    );
+
+    const paths = diffs.map(diff => diff.relativePath);
+    expect(paths.indexOf('docs')).toBeLessThan(paths.indexOf('docs/b.txt'));
+  });
+});
@@ -0,0 +1,366 @@
+import { posix } from 'path';
+import { Readable } from 'stream';
+import { SyncEngine } from '../services/SyncEngine';
+import { ICloudProvider } from '../providers/ICloudProvider';
+import { NotFoundError } from '../providers/errors';
+import { JobLease } from '../utils/jobLease';
+import { BackupVersion } from '../utils/backupVersion';
+import { ChangeFeed } from '../utils/changeFeed';
+import { ChecksumService } from '../utils/checksum';
+import { query } from '../database/connection';
+import { FileItem, SyncConflict, SyncJob, SyncRun } from '../types';
+
+jest.mock('../database/connection', () => ({
+  query: jest.fn().mockResolvedValue({ rows: [] })
+}));
+
+// Providers come from the tests through connectProvider
+jest.mock('../providers/CloudProviderFactory', () => ({ cloudProviderFactory: {} }));
+
+type MemoryProvider = ICloudProvider & { files: Map<string, FileItem> };
+
+/**
+ * Provider keeping its files in memory, keyed by path
+ */
+const createProvider = (paths: Record<string, number | 'folder'>, capabilities = {}): MemoryProvider => {
+  const files = new Map<string, FileItem>();
+  const add = (path: string, size: number | 'folder', modifiedAt = new Date('2024-05-01T10:00:00Z')) => {
+    const file: FileItem = size === 'folder'
+      ? { id: path, name: posix.basename(path), path, type: 'folder' }
+      : { id: path, name: posix.basename(path), path, type: 'file', size, modifiedAt };
+    files.set(path, file);
+    return file;
+  };
+  const inside = (path: string) => [...files.keys()].filter(key => key === path || key.startsWith(`${path}/`));
+
+  Object.entries(paths).forEach(([path, size]) => add(path, size));
+
+  return {
+    providerType: 'memory',
+    displayName: 'Memory',
+    capabilities: { supportsMove: true, supportsCopy: true, supportedHashes: [], ...capabilities },
+    files,
+    listFiles: jest.fn(async (path: string) => [...files.values()].filter(file => posix.dirname(file.path) === path)),
+    getFileInfo: jest.fn(async (path: string) => {
+      const file = files.get(path);
+      if (!file) throw new NotFoundError(`${path} not found`, 'memory', path);
+      return file;
+    }),
+    createFolder: jest.fn(async (path: string) => add(path, 'folder')),
+    moveFile: jest.fn(async (from: string, to: string) => {
+      if (!files.has(from)) throw new NotFoundError(`${from} not found`, 'memory', from);
+      for (const path of inside(from)) {
+        const file = files.get(path)!;
+        const moved = `${to}${path.slice(from.length)}`;
+        files.delete(path);
+        files.set(moved, { ...file, path: moved, name: posix.basename(moved) });
+      }
+      return files.get(to)!;
+    }),
+    copyFile: jest.fn(async (from: string, to: string) => add(to, files.get(from)!.size!)),
+    deleteFile: jest.fn(async (path: string) => {
+      if (!files.has(path)) throw new NotFoundError(`${path} not found`, 'memory', path);
+      inside(path).forEach(key => files.delete(key));
+    }),
+    downloadFile: jest.fn(async (path: string) => Readable.from([Buffer.alloc(files.get(path)!.size!)])),
+    uploadFile: jest.fn(async (path: string, stream: Readable, options: { fileSize?: number } = {}) => {
+      for await (const chunk of stream) void chunk;
+      return add(path, options.fileSize || 0, new Date());
+    })
+  } as unknown as MemoryProvider;
+};
+
+describe('SyncExecution', () => {
+  const baseJob = {
+    id: 'job-1',
+    userId: 'user-1',
+    sourceCloudId: 'source-cloud',
+    destinationCloudId: 'destination-cloud',
+    sourcePath: '/src',
+    destinationPath: '/dst',
+    syncMode: 'mirror',
+    conflictResolution: 'overwrite',
+    isActive: true,
+    lastSyncStatus: 'completed'
+  } as unknown as SyncJob;
+
+  /**
+   * Engine that runs the job between the given providers
+   */
+  const createEngine = (job: SyncJob, source: MemoryProvider, destination: MemoryProvider) => {
+    const engine = new SyncEngine();
+    const providers: Record<string, ICloudProvider> = { 'source-cloud': source, 'destination-cloud': destination };
+
+    jest.spyOn(JobLease, 'acquire').mockResolvedValue();
+    jest.spyOn(engine, 'getSyncJob').mockResolvedValue(job);
+    jest.spyOn(engine, 'updateSyncJob').mockResolvedValue(job);
+    jest.spyOn(engine, 'createSyncRun').mockResolvedValue({ id: 'run-1' } as SyncRun);
+    jest.spyOn(engine, 'connectProvider').mockImplementation(async id => ({ provider: providers[id], name: id }));
+    return engine;
+  };
+
+  /**
+   * Run a job to the end and return the status recorded on its run
+   */
+  const runSync = async (
+    job: SyncJob,
+    source: MemoryProvider,
+    destination: MemoryProvider,
+    engine = createEngine(job, source, destination)
+  ) => {
+    const finishSyncRun = jest.spyOn(engine, 'finishSyncRun').mockResolvedValue();
+
+    const completeSync = engine.completeSync.bind(engine);
+    const completed = new Promise<void>(resolve => {
+      jest.spyOn(engine, 'completeSync').mockImplementation(async (...args) => {
+        await completeSync(...args);
+        resolve();
+      });
+    });
+
+    await engine.startSync(job.id, 'manual');
+    await completed;
+
+    const [, status, stats] = finishSyncRun.mock.calls[0];
+    return { engine, status, stats };
+  };
+
+  beforeEach(() => {
+    (query as jest.Mock).mockResolvedValue({ rows: [] });
+  });
+
+  describe('with a backup folder', () => {
+    const job = { ...baseJob, options: { backupPath: '/backup' } } as SyncJob;
+
+    it('should move a deleted file into the backup folder instead of deleting it', async () => {
+      const source = createProvider({ '/src/keep.txt': 10 });
+      const destination = createProvider({ '/dst/keep.txt': 10, '/dst/old.txt': 20 });
+
+      const { status, stats } = await runSync(job, source, destination);
+
+      expect(status).toBe('completed');
+      expect(stats).toMatchObject({ filesDeleted: 1, filesFailed: 0 });
+      expect(destination.deleteFile).not.toHaveBeenCalled();
+      expect(destination.files.has('/dst/old.txt')).toBe(false);
+      expect([...destination.files.keys()].some(path => /^\/backup\/old\.\d{4}-\d{2}-\d{2}_\d{6}\.txt$/.test(path)))
+        .toBe(true);
+    });
+
+    it('should delete the file after copying it on destinations without moves', async () => {
+      const source = createProvider({ '/src/keep.txt': 10 });
+      const destination = createProvider({ '/dst/keep.txt': 10, '/dst/old.txt': 20 }, { supportsMove: false });
+
+      const { status, stats } = await runSync(job, source, destination);
+
+      expect(status).toBe('completed');
+      expect(stats).toMatchObject({ filesDeleted: 1, filesFailed: 0 });
+      expect(destination.copyFile).toHaveBeenCalledWith('/dst/old.txt', expect.stringMatching(/^\/backup\/old\./));
+      expect(destination.deleteFile).toHaveBeenCalledWith('/dst/old.txt');
+      expect(destination.files.has('/dst/old.txt')).toBe(false);
+    });
+
+    it('should prune versions outside the retention policy after the run', async () => {
+      const recent = `/backup/${BackupVersion.build('report.txt', new Date())}`;
+      const source = createProvider({ '/src/keep.txt': 10 });
+      const destination = createProvider({
+        '/dst/keep.txt': 10,
+        '/backup': 'folder',
+        '/backup/report.2020-01-01_000000.txt': 5,
+        [recent]: 5
+      });
+
+      const { status } = await runSync(
+        { ...job, options: { backupPath: '/backup', backupRetentionDays: 30 } } as SyncJob,
+        source,
+        destination
+      );
+
+      expect(status).toBe('completed');
+      expect(destination.deleteFile).toHaveBeenCalledTimes(1);
+      expect(destination.deleteFile).toHaveBeenCalledWith('/backup/report.2020-01-01_000000.txt');
+      expect(destination.files.has(recent)).toBe(true);
+    });
+  });
+
+  describe('with a change feed', () => {
+    const job = { ...baseJob, syncMode: 'one_way' } as SyncJob;
+
+    const withFeed = (provider: MemoryProvider) => {
+      provider.getChanges = jest.fn((path, cursor, options) => ChangeFeed.fromSnapshot(provider, path, cursor, options));
+      return provider;
+    };
+
+    it('should walk providers whose feed compares listings without storing them', async () => {
+      const saveCursor = jest.spyOn(SyncEngine.prototype, 'saveSyncChangeCursor').mockResolvedValue();
+      const source = withFeed(createProvider({ '/src/a.txt': 10 }));
+
+      const { stats } = await runSync(job, source, createProvider({}));
+
+      expect(stats).toMatchObject({ filesAdded: 1 });
+      expect(source.getChanges).not.toHaveBeenCalled();
+      expect(saveCursor).not.toHaveBeenCalled();
+    });
+
+    it('should store the cursor and files of a delta feed', async () => {
+      const saveCursor = jest.spyOn(SyncEngine.prototype, 'saveSyncChangeCursor').mockResolvedValue();
+      const source = withFeed(createProvider({ '/src/a.txt': 10 }, { supportsChangeFeed: true }));
+
+      const { stats } = await runSync(job, source, createProvider({}));
+
+      expect(stats).toMatchObject({ filesAdded: 1 });
+      expect(source.getChanges).toHaveBeenCalledWith('/src', undefined, expect.objectContaining({ files: [] }));
+      expect(saveCursor).toHaveBeenCalledWith('job-1', expect.objectContaining({
+        side: 'source',
+        files: [expect.objectContaining({ path: '/src/a.txt' })]
+      }));
+    });
+  });
+
+  describe('two-way', () => {
+    const job = { ...baseJob, syncMode: 'two_way', conflictResolution: 'skip' } as SyncJob;
+    const synced = { size: 10, modifiedAt: new Date('2024-05-01T10:00:00Z') };
+
+    it('should carry each side\'s changes since the baseline over and skip files changed on both', async () => {
+      const source = createProvider({ '/src/edited.txt': 15, '/src/removed.txt': 10, '/src/restored.txt': 12 });
+      const destination = createProvider({ '/dst/edited.txt': 20, '/dst/added.txt': 30 });
+      jest.spyOn(SyncEngine.prototype, 'getSyncBaseline').mockResolvedValue(new Map(
+        ['edited.txt', 'removed.txt', 'restored.txt'].map(relativePath => [
+          relativePath,
+          { relativePath, fileType: 'file', source: synced, destination: synced, syncedAt: new Date() }
+        ])
+      ));
+
+      const recordConflict = jest.spyOn(SyncEngine.prototype, 'recordSyncConflict').mockResolvedValue({} as SyncConflict);
+
+      const { status, stats } = await runSync(job, source, destination);
+
+      expect(status).toBe('completed');
+      expect(stats).toMatchObject({ filesAdded: 2, filesDeleted: 1, conflicts: 1 });
+      expect(recordConflict).toHaveBeenCalledWith('job-1', expect.objectContaining({
+        relativePath: 'edited.txt',
+        resolution: 'skipped'
+      }));
+      expect([...source.files.keys()].sort()).toEqual(['/src/added.txt', '/src/edited.txt', '/src/restored.txt']);
+      expect([...destination.files.keys()].sort()).toEqual(['/dst/added.txt', '/dst/edited.txt', '/dst/restored.txt']);
+      expect(source.files.get('/src/edited.txt')!.size).toBe(15);
+      expect(destination.files.get('/dst/edited.txt')!.size).toBe(20);
+    });
+  });
+
+  describe('previews', () => {
+    it('should list what a run would do without changing either side', async () => {
+      const source = createProvider({ '/src/new.txt': 10, '/src/docs': 'folder', '/src/docs/a.txt': 20 });
+      const destination = createProvider({ '/dst/old.txt': 30 });
+      const engine = createEngine(baseJob, source, destination);
+
+      const preview = await engine.previewSync('job-1');
+
+      expect(preview.uploads.map(item => item.path).sort()).toEqual(['/dst/docs/a.txt', '/dst/new.txt']);
+      expect(preview.createFolders).toEqual([expect.objectContaining({ path: '/dst/docs', type: 'folder' })]);
+      expect(preview.deletes).toEqual([expect.objectContaining({ path: '/dst/old.txt', side: 'destination' })]);
+      expect(preview).toMatchObject({ totalOperations: 4, totalConflicts: 0, totalBytes: 30 });
+      expect(engine.createSyncRun).not.toHaveBeenCalled();
+      expect(destination.uploadFile).not.toHaveBeenCalled();
+      expect(destination.createFolder).not.toHaveBeenCalled();
+      expect(destination.deleteFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with checksum_cached comparison', () => {
+    const job = { ...baseJob, syncMode: 'one_way', options: { compareMode: 'checksum_cached' } } as SyncJob;
+
+    it('should reuse hashes of unchanged files and cache the ones it computes', async () => {
+      const checksum = await ChecksumService.hashStream(Readable.from([Buffer.alloc(10)]));
+      const source = createProvider({ '/src/a.txt': 10 });
+      const destination = createProvider({ '/dst/a.txt': 10 });
+      const edited = new Date('2024-06-01T10:00:00Z');
+      destination.files.get('/dst/a.txt')!.modifiedAt = edited;
+
+      // The destination's cached hash is from before its last modification
+      const cache: Record<string, { file_path: string; checksum: string }> = {
+        'source-cloud': { file_path: '/src/a.txt', checksum },
+        'destination-cloud': { file_path: '/dst/a.txt', checksum: 'stale' }
+      };
+      (query as jest.Mock).mockImplementation(async (sql: string, params: string[]) => sql.includes('FROM file_hashes')
+        ? { rows: [{ ...cache[params[0]], file_size: 10, modified_at: '2024-05-01T10:00:00Z' }] }
+        : { rows: [] });
+
+      const { stats } = await runSync(job, source, destination);
+
+      expect(stats).toMatchObject({ filesAdded: 0, filesUpdated: 0, filesFailed: 0 });
+      expect(source.downloadFile).not.toHaveBeenCalled();
+      expect(destination.downloadFile).toHaveBeenCalledWith('/dst/a.txt');
+      expect(destination.uploadFile).not.toHaveBeenCalled();
+
+      const cacheWrites = (query as jest.Mock).mock.calls.filter(([sql]) => sql.includes('INSERT INTO file_hashes'));
+      expect(cacheWrites).toEqual([
+        [expect.any(String), ['destination-cloud', '/dst/a.txt', 'md5', checksum, 10, edited]]
+      ]);
+    });
+  });
+
+  describe('comparison', () => {
+    it('should match files by their path below the root, not by name', async () => {
+      const source = createProvider({ '/src/a': 'folder', '/src/a/x.txt': 10, '/src/b': 'folder', '/src/b/x.txt': 20 });
+      const destination = createProvider({ '/dst/a': 'folder', '/dst/a/x.txt': 10 });
+
+      const { stats } = await runSync(baseJob, source, destination);
+
+      expect(stats).toMatchObject({ filesAdded: 2, filesUpdated: 0, filesDeleted: 0 });
+      expect(destination.createFolder).toHaveBeenCalledWith('/dst/b');
+      expect(destination.uploadFile).toHaveBeenCalledTimes(1);
+      expect(destination.uploadFile).toHaveBeenCalledWith('/dst/b/x.txt', expect.anything(), expect.anything());
+      expect(destination.files.get('/dst/b/x.txt')!.size).toBe(20);
+    });
+  });
+
+  describe('run history', () => {
+    it('should leave a stopped run and its job cancelled', async () => {
+      const source = createProvider({ '/src/a.txt': 10, '/src/b.txt': 20 });
+      const destination = createProvider({});
+      const engine = createEngine(baseJob, source, destination);
+      const upload = destination.uploadFile as jest.Mock;
+      const uploadFile = upload.getMockImplementation()!;
+      upload.mockImplementationOnce(async (...args: unknown[]) => {
+        await engine.stopSync('job-1');
+        return uploadFile(...args);
+      });
+
+      const { status } = await runSync(baseJob, source, destination, engine);
+
+      expect(status).toBe('cancelled');
+      expect(upload).toHaveBeenCalledTimes(1);
+      expect(engine.updateSyncJob).toHaveBeenLastCalledWith('job-1', { lastSyncStatus: 'cancelled' });
+    });
+
+    it('should log every file of a run and record a partial run when some fail', async () => {
+      const logSyncFile = jest.spyOn(SyncEngine.prototype, 'logSyncFile').mockResolvedValue();
+      const source = createProvider({ '/src/a.txt': 10, '/src/b.txt': 20 });
+      const destination = createProvider({});
+      const upload = destination.uploadFile as jest.Mock;
+      const uploadFile = upload.getMockImplementation()!;
+      upload.mockImplementation(async (path: string, ...args: unknown[]) => {
+        if (path === '/dst/b.txt') throw new Error('Disk full');
+        return uploadFile(path, ...args);
+      });
+
+      const { engine, status, stats } = await runSync(baseJob, source, destination);
+
+      expect(status).toBe('partial');
+      expect(stats).toMatchObject({ filesProcessed: 2, filesAdded: 1, filesFailed: 1, bytesTransferred: 10 });
+      expect(engine.finishSyncRun).toHaveBeenCalledWith('run-1', 'partial', stats);
+      expect(logSyncFile).toHaveBeenCalledWith('job-1', 'run-1', {
+        filePath: '/dst/a.txt',
+        fileSize: 10,
+        status: 'completed',
+        errorMessage: undefined
+      });
+      expect(logSyncFile).toHaveBeenCalledWith('job-1', 'run-1', {
+        filePath: '/dst/b.txt',
+        fileSize: 20,
+        status: 'failed',
+        errorMessage: 'Disk full'
+      });
+    });
+  });
+});
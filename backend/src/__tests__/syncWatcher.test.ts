@@ -0,0 +1,146 @@
+import { SyncWatcher } from '../services/SyncWatcher';
+import { syncEngine } from '../services/SyncEngine';
+import { queueManager } from '../services/QueueManager';
+import { ICloudProvider } from '../providers/ICloudProvider';
+import { ChangeFeed } from '../utils/changeFeed';
+import { FileItem, SyncJob } from '../types';
+
+jest.mock('../services/SyncEngine', () => {
+  const { EventEmitter } = require('events');
+  return {
+    syncEngine: Object.assign(new EventEmitter(), {
+      getContinuousSyncJobs: jest.fn(),
+      connectProvider: jest.fn(),
+      isSyncRunning: jest.fn()
+    })
+  };
+});
+
+jest.mock('../services/QueueManager', () => ({
+  queueManager: { addSyncJob: jest.fn() }
+}));
+
+const engine = syncEngine as jest.Mocked<typeof syncEngine>;
+const queue = queueManager as jest.Mocked<typeof queueManager>;
+
+const file = (path: string, size = 10): FileItem =>
+  ({ id: path, name: path.split('/').pop()!, path, type: 'file', size, modifiedAt: new Date('2024-05-01T10:00:00Z') });
+
+describe('SyncWatcher', () => {
+  const job = {
+    id: 'job-1',
+    userId: 'user-1',
+    sourceCloudId: 'cloud-1',
+    destinationCloudId: 'cloud-2',
+    sourcePath: '/docs',
+    destinationPath: '/backup',
+    syncMode: 'one_way',
+    isActive: true,
+    lastSyncStatus: 'completed',
+    filters: { excludePatterns: ['*.tmp'] },
+    options: { continuous: true, watchInterval: 10, watchDebounce: 30, maxSyncDepth: 2 }
+  } as unknown as SyncJob;
+
+  let files: FileItem[];
+  let watcher: SyncWatcher;
+
+  const createProvider = (withFeed: boolean): ICloudProvider => {
+    const provider = { listFiles: jest.fn(async () => files) } as unknown as ICloudProvider;
+    if (withFeed) {
+      provider.getChanges = jest.fn((path, cursor, options) => ChangeFeed.fromSnapshot(provider, path, cursor, options));
+    }
+    return provider;
+  };
+
+  const startWatching = async (provider: ICloudProvider) => {
+    engine.getContinuousSyncJobs.mockResolvedValue([job]);
+    engine.connectProvider.mockResolvedValue({ provider, name: 'Docs' });
+    await watcher.start();
+    await jest.advanceTimersByTimeAsync(0);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    engine.isSyncRunning.mockReturnValue(false);
+    files = [file('/docs/a.txt')];
+    watcher = new SyncWatcher();
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    jest.useRealTimers();
+  });
+
+  it('should queue one run once changes stop for the debounce time', async () => {
+    await startWatching(createProvider(false));
+
+    files = [file('/docs/a.txt', 20)];
+    await jest.advanceTimersByTimeAsync(10 * 1000);
+
+    // A further change postpones the run
+    files = [file('/docs/a.txt', 30)];
+    await jest.advanceTimersByTimeAsync(20 * 1000);
+    expect(queue.addSyncJob).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(queue.addSyncJob).toHaveBeenCalledTimes(1);
+    expect(queue.addSyncJob).toHaveBeenCalledWith(
+      { syncJobId: 'job-1', userId: 'user-1', trigger: 'watch' },
+      expect.objectContaining({ jobId: 'watch-job-1' })
+    );
+  });
+
+  it('should ignore changes the job\'s filters exclude', async () => {
+    await startWatching(createProvider(false));
+
+    files = [file('/docs/a.txt'), file('/docs/b.tmp')];
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(queue.addSyncJob).not.toHaveBeenCalled();
+  });
+
+  it('should catch changes made while a run was in progress', async () => {
+    const provider = createProvider(false);
+    await startWatching(provider);
+
+    engine.isSyncRunning.mockReturnValue(true);
+    files = [file('/docs/a.txt'), file('/docs/b.txt')];
+    await jest.advanceTimersByTimeAsync(10 * 1000);
+    expect(provider.listFiles).toHaveBeenCalledTimes(1);
+
+    engine.isSyncRunning.mockReturnValue(false);
+    engine.emit('syncJobUpdated', { ...job, lastSyncStatus: 'completed' });
+    await jest.advanceTimersByTimeAsync(40 * 1000);
+
+    expect(queue.addSyncJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep watching a job left \'running\' by a crash', async () => {
+    await startWatching(createProvider(false));
+    engine.emit('syncJobUpdated', { ...job, lastSyncStatus: 'running' });
+
+    files = [file('/docs/a.txt'), file('/docs/b.txt')];
+    await jest.advanceTimersByTimeAsync(40 * 1000);
+
+    expect(queue.addSyncJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read the change feed from its last cursor with the job\'s walk options', async () => {
+    const provider = createProvider(true);
+    await startWatching(provider);
+
+    files = [file('/docs/a.txt'), file('/docs/b.txt')];
+    await jest.advanceTimersByTimeAsync(10 * 1000);
+
+    const getChanges = provider.getChanges as jest.Mock;
+    const first = await getChanges.mock.results[0].value;
+    expect(getChanges).toHaveBeenLastCalledWith('/docs', first.cursor, {
+      filters: job.filters,
+      maxDepth: 2,
+      files: [file('/docs/a.txt')]
+    });
+
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(queue.addSyncJob).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,51 @@
+import { TokenBucket, BandwidthSchedule } from '../utils/tokenBucket';
+
+describe('BandwidthSchedule', () => {
+  const rules = [
+    { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00', limit: 1000 },
+    { start: '22:00', end: '06:00', limit: 0 }
+  ];
+
+  it('should return the limit of the matching rule', () => {
+    // Monday 10:30
+    expect(BandwidthSchedule.resolve(rules, new Date(2024, 0, 1, 10, 30))).toBe(1000);
+    // Sunday 10:30
+    expect(BandwidthSchedule.resolve(rules, new Date(2024, 0, 7, 10, 30))).toBeUndefined();
+  });
+
+  it('should handle rules running past midnight', () => {
+    expect(BandwidthSchedule.resolve(rules, new Date(2024, 0, 1, 23, 0))).toBe(0);
+    expect(BandwidthSchedule.resolve(rules, new Date(2024, 0, 2, 5, 59))).toBe(0);
+    expect(BandwidthSchedule.resolve(rules, new Date(2024, 0, 2, 6, 0))).toBeUndefined();
+  });
+
+  it('should match the early part of an overnight rule to the previous day', () => {
+    const fridayNight = [{ days: [5], start: '22:00', end: '02:00', limit: 500 }];
+
+    // Saturday 01:00 belongs to Friday's rule
+    expect(BandwidthSchedule.resolve(fridayNight, new Date(2024, 0, 6, 1, 0))).toBe(500);
+    // Friday 01:00 belongs to Thursday
+    expect(BandwidthSchedule.resolve(fridayNight, new Date(2024, 0, 5, 1, 0))).toBeUndefined();
+  });
+});
+
+describe('TokenBucket', () => {
+  it('should delay bytes beyond the rate', async () => {
+    const bucket = new TokenBucket(() => 1000);
+    const startedAt = Date.now();
+
+    await bucket.consume(1000);
+    await bucket.consume(500);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(450);
+  });
+
+  it('should not delay when unlimited', async () => {
+    const bucket = new TokenBucket(() => 0);
+    const startedAt = Date.now();
+
+    await bucket.consume(10 * 1024 * 1024);
+
+    expect(Date.now() - startedAt).toBeLessThan(50);
+  });
+});
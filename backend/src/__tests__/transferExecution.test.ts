@@ -0,0 +1,343 @@
+import { posix } from 'path';
+import { Readable } from 'stream';
+import { TransferEngine } from '../services/TransferEngine';
+import { ICloudProvider } from '../providers/ICloudProvider';
+import { cloudProviderFactory } from '../providers/CloudProviderFactory';
+import { NetworkError } from '../providers/errors';
+import { JobLease } from '../utils/jobLease';
+import { query } from '../database/connection';
+import { FileItem, TransferJob, UploadSession } from '../types';
+
+jest.mock('../database/connection', () => ({ query: jest.fn() }));
+jest.mock('../providers/CloudProviderFactory', () => ({ cloudProviderFactory: { createProvider: jest.fn() } }));
+
+type MemoryProvider = ICloudProvider & { files: Map<string, FileItem> };
+
+/**
+ * Provider keeping its files in memory, keyed by path
+ */
+const createProvider = (paths: Record<string, number>, capabilities = {}): MemoryProvider => {
+  const files = new Map<string, FileItem>();
+  const add = (path: string, size: number) => {
+    const file: FileItem = { id: path, name: posix.basename(path), path, type: 'file', size };
+    files.set(path, file);
+    return file;
+  };
+
+  Object.entries(paths).forEach(([path, size]) => add(path, size));
+
+  return {
+    providerType: 'memory',
+    displayName: 'Memory',
+    capabilities: { supportsUpload: true, ...capabilities },
+    files,
+    authenticate: jest.fn(),
+    listFiles: jest.fn(async (path: string) => [...files.values()].filter(file => posix.dirname(file.path) === path)),
+    getFileInfo: jest.fn(async (path: string) => files.get(path)),
+    createFolder: jest.fn(),
+    deleteFile: jest.fn(async (path: string) => {
+      files.delete(path);
+    }),
+    downloadFile: jest.fn(async (path: string, range?: { start: number }) =>
+      Readable.from([Buffer.alloc(files.get(path)!.size! - (range?.start || 0))])),
+    uploadFile: jest.fn(async (path: string, stream: Readable, options: { fileSize?: number } = {}) => {
+      for await (const chunk of stream) void chunk;
+      return add(path, options.fileSize || 0);
+    })
+  } as unknown as MemoryProvider;
+};
+
+describe('TransferExecution', () => {
+  const baseJob = {
+    id: 'job-1',
+    userId: 'user-1',
+    sourceCloudId: 'source',
+    destinationCloudId: 'destination',
+    sourcePath: '/src',
+    destinationPath: '/dst',
+    status: 'pending'
+  } as TransferJob;
+
+  let engine: TransferEngine;
+  let jobs: Map<string, TransferJob>;
+  let fileLogs: Map<string, Record<string, unknown>>;
+
+  /**
+   * Back query with the cloud providers the test hands out and an
+   * in-memory file_transfer_logs table
+   */
+  const useProviders = (providers: Record<string, ICloudProvider>) => {
+    (query as jest.Mock).mockImplementation(async (sql: string, params: unknown[]) => {
+      if (sql.includes('FROM cloud_providers')) {
+        return { rows: [{ provider_type: params[0], credentials: '{}' }] };
+      }
+
+      if (sql.includes('INSERT INTO file_transfer_logs') && sql.includes('ON CONFLICT (transfer_job_id, file_path)')) {
+        const [jobId, filePath, fileSize, status, errorMessage, errorCode] = params;
+        const key = `${jobId}:${filePath}`;
+        const existing = fileLogs.get(key);
+        fileLogs.set(key, {
+          ...existing,
+          transfer_job_id: jobId,
+          file_path: filePath,
+          file_size: fileSize ?? existing?.file_size ?? null,
+          status,
+          error_message: errorMessage,
+          error_code: errorCode,
+          source_checksum: params[6] ?? existing?.source_checksum,
+          destination_checksum: params[7] ?? existing?.destination_checksum,
+          source_deleted_at: params[9] ?? existing?.source_deleted_at,
+          upload_session: params[10] ? JSON.parse(params[10] as string) : null
+        });
+        return { rows: [] };
+      }
+
+      if (sql.includes('FROM file_transfer_logs')) {
+        return { rows: [...fileLogs.values()].filter(row => row.transfer_job_id === params[0]) };
+      }
+
+      return { rows: [] };
+    });
+    (cloudProviderFactory.createProvider as jest.Mock).mockImplementation(async (type: string) => providers[type]);
+  };
+
+  /**
+   * Run a job to the end and return the status it completed with
+   */
+  const runTransfer = async (jobId: string) => {
+    const completeTransfer = engine.completeTransfer.bind(engine);
+    const completed = new Promise<boolean>(resolve => {
+      jest.spyOn(engine, 'completeTransfer').mockImplementation(async (id, success, errorMessage) => {
+        await completeTransfer(id, success, errorMessage);
+        resolve(success);
+      });
+    });
+
+    await engine.startTransfer(jobId);
+    return completed;
+  };
+
+  const logOf = (jobId: string, filePath: string) => fileLogs.get(`${jobId}:${filePath}`);
+
+  beforeEach(() => {
+    engine = new TransferEngine();
+    jobs = new Map([[baseJob.id, baseJob]]);
+    fileLogs = new Map();
+
+    jest.spyOn(JobLease, 'acquire').mockResolvedValue();
+    jest.spyOn(engine, 'getTransferJob').mockImplementation(async id => jobs.get(id) || null);
+    jest.spyOn(engine, 'updateTransferJob').mockResolvedValue();
+  });
+
+  describe('checkpoints', () => {
+    it('should skip files an earlier run completed and record the state of the others', async () => {
+      const source = createProvider({ '/src/a.txt': 10, '/src/b.txt': 20 });
+      const destination = createProvider({});
+      useProviders({ source, destination });
+      fileLogs.set('job-1:/src/a.txt', {
+        transfer_job_id: 'job-1',
+        file_path: '/src/a.txt',
+        file_size: 10,
+        status: 'completed'
+      });
+
+      expect(await runTransfer('job-1')).toBe(true);
+
+      expect(source.downloadFile).toHaveBeenCalledTimes(1);
+      expect(source.downloadFile).toHaveBeenCalledWith('/src/b.txt', undefined);
+      expect(destination.files.has('/dst/b.txt')).toBe(true);
+      expect(logOf('job-1', '/src/b.txt')).toMatchObject({ status: 'completed', file_size: 20 });
+      expect(engine.updateTransferJob).toHaveBeenCalledWith('job-1', expect.objectContaining({
+        filesTotal: 2,
+        filesCompleted: 1,
+        bytesTransferred: 10
+      }));
+    });
+
+    it('should continue a saved upload session from where it stopped', async () => {
+      const session: UploadSession = { uploadId: 'upload-1', bytesUploaded: 8 };
+      const source = createProvider({ '/src/a.txt': 20 }, { supportsRangeDownload: true });
+      const destination = createProvider({}, { supportsResume: true });
+      useProviders({ source, destination });
+      fileLogs.set('job-1:/src/a.txt', {
+        transfer_job_id: 'job-1',
+        file_path: '/src/a.txt',
+        file_size: 20,
+        status: 'failed',
+        upload_session: session
+      });
+
+      expect(await runTransfer('job-1')).toBe(true);
+
+      expect(source.downloadFile).toHaveBeenCalledWith('/src/a.txt', { start: 8 });
+      expect(destination.uploadFile).toHaveBeenCalledWith(
+        '/dst/a.txt',
+        expect.anything(),
+        expect.objectContaining({ resumeSession: session })
+      );
+      expect(logOf('job-1', '/src/a.txt')).toMatchObject({ status: 'completed', upload_session: null });
+    });
+  });
+
+  describe('with a retry policy', () => {
+    it('should leave a file paused during its retry wait to the resumed run', async () => {
+      const source = createProvider({ '/src/a.txt': 10 });
+      const destination = createProvider({});
+      (destination.uploadFile as jest.Mock).mockImplementationOnce(async () => {
+        setTimeout(() => engine.pauseTransfer('job-1'), 50);
+        throw new NetworkError('Connection reset', 'memory');
+      });
+      useProviders({ source, destination });
+      jobs.set('job-1', { ...baseJob, options: { retryPolicy: { maxAttempts: 3, initialDelay: 1000 } } });
+
+      const released = new Promise<void>(resolve => {
+        jest.spyOn(engine, 'releaseTransfer').mockImplementation(async () => resolve());
+      });
+      await engine.startTransfer('job-1');
+      await released;
+
+      expect(destination.uploadFile).toHaveBeenCalledTimes(1);
+      expect(engine.updateTransferJob).toHaveBeenCalledWith('job-1', { status: 'paused' });
+      expect(engine.updateTransferJob).not.toHaveBeenCalledWith('job-1', expect.objectContaining({ filesFailed: 1 }));
+    });
+  });
+
+  describe('with parallelTransfers', () => {
+    it('should keep no more files in flight than the job allows', async () => {
+      const source = createProvider({ '/src/a.txt': 1, '/src/b.txt': 2, '/src/c.txt': 3, '/src/d.txt': 4, '/src/e.txt': 5 });
+      const destination = createProvider({});
+      const upload = destination.uploadFile as jest.Mock;
+      const uploadFile = upload.getMockImplementation()!;
+      let inFlight = 0;
+      let maxInFlight = 0;
+      upload.mockImplementation(async (...args: unknown[]) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        const uploaded = await uploadFile(...args);
+        inFlight--;
+        return uploaded;
+      });
+      useProviders({ source, destination });
+      jobs.set('job-1', { ...baseJob, options: { parallelTransfers: 2 } });
+
+      expect(await runTransfer('job-1')).toBe(true);
+
+      expect(maxInFlight).toBe(2);
+      expect(destination.files.size).toBe(5);
+    });
+  });
+
+  describe('with verifyIntegrity', () => {
+    const job = { ...baseJob, options: { verifyIntegrity: true, retryPolicy: { maxAttempts: 1 } } } as TransferJob;
+
+    it('should read the upload back and store matching checksums', async () => {
+      const source = createProvider({ '/src/a.txt': 10 });
+      const destination = createProvider({});
+      useProviders({ source, destination });
+      jobs.set('job-1', job);
+
+      expect(await runTransfer('job-1')).toBe(true);
+
+      expect(destination.downloadFile).toHaveBeenCalledWith('/dst/a.txt');
+      const log = logOf('job-1', '/src/a.txt')!;
+      expect(log).toMatchObject({ status: 'completed', source_checksum: expect.any(String) });
+      expect(log.destination_checksum).toBe(log.source_checksum);
+    });
+
+    it('should fail a file whose stored checksum doesn\'t match the bytes sent', async () => {
+      const source = createProvider({ '/src/a.txt': 10 });
+      const destination = createProvider({}, { checksumAlgorithm: 'md5' });
+      (destination.uploadFile as jest.Mock).mockImplementation(async (path: string, stream: Readable) => {
+        for await (const chunk of stream) void chunk;
+        return { id: path, name: posix.basename(path), path, type: 'file', size: 10, checksum: 'corrupted' };
+      });
+      useProviders({ source, destination });
+      jobs.set('job-1', job);
+
+      await runTransfer('job-1');
+
+      expect(destination.downloadFile).not.toHaveBeenCalled();
+      expect(logOf('job-1', '/src/a.txt')).toMatchObject({
+        status: 'failed',
+        error_code: 'INTEGRITY_ERROR',
+        destination_checksum: 'corrupted'
+      });
+    });
+  });
+
+  describe('with deleteSourceAfterTransfer', () => {
+    const job = { ...baseJob, options: { deleteSourceAfterTransfer: true } } as TransferJob;
+
+    it('should delete each source file once it is at the destination', async () => {
+      const source = createProvider({ '/src/a.txt': 10, '/src/b.txt': 20 });
+      const destination = createProvider({});
+      useProviders({ source, destination });
+      jobs.set('job-1', job);
+
+      expect(await runTransfer('job-1')).toBe(true);
+
+      expect([...source.files.keys()]).toEqual([]);
+      expect([...destination.files.keys()]).toEqual(['/dst/a.txt', '/dst/b.txt']);
+      expect(logOf('job-1', '/src/a.txt')).toMatchObject({ status: 'completed', source_deleted_at: expect.any(Date) });
+      expect(logOf('job-1', '/src/b.txt')).toMatchObject({ status: 'completed', source_deleted_at: expect.any(Date) });
+    });
+
+    it('should keep the copy and fail the file when the source can\'t be deleted', async () => {
+      const source = createProvider({ '/src/a.txt': 10 });
+      const destination = createProvider({});
+      (source.deleteFile as jest.Mock).mockRejectedValue(new Error('Access denied'));
+      useProviders({ source, destination });
+      jobs.set('job-1', { ...job, options: { ...job.options, retryPolicy: { maxAttempts: 1 } } });
+
+      await runTransfer('job-1');
+
+      expect(destination.files.has('/dst/a.txt')).toBe(true);
+      expect(source.files.has('/src/a.txt')).toBe(true);
+      expect(logOf('job-1', '/src/a.txt')).toMatchObject({
+        status: 'failed',
+        error_code: 'SOURCE_DELETE_ERROR',
+        source_deleted_at: undefined
+      });
+    });
+  });
+
+  describe('retries', () => {
+    it('should run only the files that failed in the retried transfer', async () => {
+      const source = createProvider({ '/src/a.txt': 10, '/src/b.txt': 20 });
+      const destination = createProvider({ '/dst/a.txt': 10 });
+      useProviders({ source, destination });
+      jobs.set('job-1', { ...baseJob, status: 'failed' });
+      fileLogs.set('job-1:/src/a.txt', { transfer_job_id: 'job-1', file_path: '/src/a.txt', status: 'completed' });
+      fileLogs.set('job-1:/src/b.txt', { transfer_job_id: 'job-1', file_path: '/src/b.txt', status: 'failed' });
+      jest.spyOn(engine, 'createTransferJob').mockImplementation(async request => {
+        const retryJob = { ...baseJob, ...request, id: 'job-2' } as TransferJob;
+        jobs.set(retryJob.id, retryJob);
+        return retryJob;
+      });
+
+      const retryJob = await engine.createRetryTransfer('job-1');
+
+      expect(retryJob.parentTransferId).toBe('job-1');
+      expect(logOf('job-2', '/src/a.txt')).toBeUndefined();
+      expect(logOf('job-2', '/src/b.txt')).toMatchObject({ status: 'pending' });
+
+      expect(await runTransfer('job-2')).toBe(true);
+
+      expect(source.listFiles).not.toHaveBeenCalled();
+      expect(source.downloadFile).toHaveBeenCalledTimes(1);
+      expect(source.downloadFile).toHaveBeenCalledWith('/src/b.txt', undefined);
+      expect(destination.files.has('/dst/b.txt')).toBe(true);
+      expect(logOf('job-2', '/src/b.txt')).toMatchObject({ status: 'completed', file_size: 20 });
+    });
+
+    it('should refuse to retry a transfer without failed files', async () => {
+      useProviders({});
+      jobs.set('job-1', { ...baseJob, status: 'completed' });
+      fileLogs.set('job-1:/src/a.txt', { transfer_job_id: 'job-1', file_path: '/src/a.txt', status: 'completed' });
+      const createTransferJob = jest.spyOn(engine, 'createTransferJob');
+
+      await expect(engine.createRetryTransfer('job-1')).rejects.toThrow('Transfer has no failed files to retry');
+      expect(createTransferJob).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { TransferPreflight, TransferPreflightRequest } from '../services/TransferPreflight';
+import { ICloudProvider } from '../providers/ICloudProvider';
+import { cloudProviderFactory } from '../providers/CloudProviderFactory';
+import { query } from '../database/connection';
+import { CloudProviderCapabilities, CloudQuota, FileItem } from '../types';
+
+jest.mock('../database/connection', () => ({ query: jest.fn() }));
+jest.mock('../providers/CloudProviderFactory', () => ({ cloudProviderFactory: { createProvider: jest.fn() } }));
+
+const file = (path: string, size: number, mimeType?: string): FileItem =>
+  ({ id: path, name: path.split('/').pop()!, path, type: 'file', size, mimeType });
+
+const createProvider = (
+  files: FileItem[],
+  capabilities: Partial<CloudProviderCapabilities> = {},
+  quota: Partial<CloudQuota> = { total: 1000, available: 1000 }
+): ICloudProvider => ({
+  providerType: 'memory',
+  displayName: 'Memory',
+  capabilities: { supportsUpload: true, ...capabilities },
+  authenticate: jest.fn(),
+  listFiles: jest.fn(async (path: string) => files.filter(item => item.path.startsWith(`${path}/`))),
+  getQuota: jest.fn(async () => quota)
+} as unknown as ICloudProvider);
+
+describe('TransferPreflight', () => {
+  const preflight = new TransferPreflight();
+  const request: TransferPreflightRequest = {
+    userId: 'user-1',
+    sourceCloudId: 'source',
+    destinationCloudId: 'destination',
+    sourcePath: '/src',
+    destinationPath: '/dst'
+  };
+
+  // Cloud ids name the provider each test hands out
+  const useProviders = (providers: Record<string, ICloudProvider>) => {
+    (query as jest.Mock).mockImplementation(async (sql: string, params: string[]) => sql.includes('cloud_providers')
+      ? { rows: [{ provider_type: params[0], credentials: '{}' }] }
+      : { rows: [] });
+    (cloudProviderFactory.createProvider as jest.Mock).mockImplementation(async (type: string) => providers[type]);
+  };
+
+  it('should report files over the destination\'s size limit', async () => {
+    useProviders({
+      source: createProvider([file('/src/small.bin', 10), file('/src/large.bin', 500)]),
+      destination: createProvider([], { maxFileSize: 100 })
+    });
+
+    const validation = await preflight.validate(request);
+
+    expect(validation.valid).toBe(false);
+    expect(validation.problems).toEqual([
+      expect.objectContaining({ code: 'FILE_SIZE_LIMIT_ERROR', path: '/src/large.bin' })
+    ]);
+    expect(validation.estimate).toMatchObject({ filesTotal: 2, estimatedSize: 510 });
+  });
+
+  it('should match MIME types against wildcards', async () => {
+    useProviders({
+      source: createProvider([file('/src/a.jpg', 10, 'image/jpeg'), file('/src/b.pdf', 10, 'application/pdf')]),
+      destination: createProvider([], { supportedMimeTypes: ['image/*', 'text/plain'] })
+    });
+
+    const { problems } = await preflight.validate(request);
+
+    expect(problems).toEqual([expect.objectContaining({ code: 'UNSUPPORTED_OPERATION_ERROR', path: '/src/b.pdf' })]);
+  });
+
+  it('should block on missing space but only warn when the quota is unknown', async () => {
+    const source = createProvider([file('/src/a.bin', 600)]);
+
+    useProviders({ source, destination: createProvider([], {}, { total: 1000, available: 500 }) });
+    const full = await preflight.validate(request);
+    expect(full.problems).toEqual([expect.objectContaining({ code: 'INSUFFICIENT_STORAGE_ERROR' })]);
+
+    useProviders({ source, destination: createProvider([], {}, { total: 0, available: 0 }) });
+    const unknown = await preflight.validate(request);
+    expect(unknown.valid).toBe(true);
+    expect(unknown.warnings).toEqual([expect.stringMatching(/does not report free space/)]);
+  });
+
+  it('should reject a destination inside the source on the same cloud', async () => {
+    const provider = createProvider([file('/src/a.bin', 10)]);
+    useProviders({ same: provider });
+    const sameCloud = { ...request, sourceCloudId: 'same', destinationCloudId: 'same' };
+
+    const inside = await preflight.validate({ ...sameCloud, destinationPath: '/src/backup' });
+    expect(inside.problems).toEqual([expect.objectContaining({ code: 'OVERLAPPING_PATHS' })]);
+
+    const dotted = await preflight.validate({ ...sameCloud, destinationPath: '/src/..data' });
+    expect(dotted.problems).toEqual([expect.objectContaining({ code: 'OVERLAPPING_PATHS' })]);
+
+    const beside = await preflight.validate({ ...sameCloud, destinationPath: '/src-copy' });
+    expect(beside.valid).toBe(true);
+  });
+});
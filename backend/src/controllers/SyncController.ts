@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { SyncJob, FileFilter, SyncOptions } from '../types';
 import { syncEngine, CreateSyncJobRequest } from '../services/SyncEngine';
 import { queueManager } from '../services/QueueManager';
+import { CronSchedule } from '../utils/cronSchedule';
+import { validate as isUuid } from 'uuid';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -255,10 +257,11 @@ export class SyncController {
         return;
       }
 
-      // Add to queue for processing
+      // Add to queue for processing; the web app marks its own starts as manual
       await queueManager.addSyncJob({
         syncJobId: syncId,
-        userId
+        userId,
+        trigger: req.body?.trigger === 'manual' ? 'manual' : 'api'
       });
 
       res.status(200).json({
@@ -277,6 +280,117 @@ export class SyncController {
     }
   }
 
+  /**
+   * Preview the operations a sync job would run
+   */
+  public static async previewSync(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const syncId = req.params.id;
+
+      if (req.body?.dryRun === false) {
+        res.status(400).json({
+          success: false,
+          error: 'Previews are always dry runs, start the sync to run it',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      const sync = await syncEngine.getSyncJob(syncId);
+
+      if (!sync) {
+        res.status(404).json({
+          success: false,
+          error: 'Sync job not found',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      // Check if user owns the sync
+      if (sync.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      const preview = await syncEngine.previewSync(syncId);
+
+      res.status(200).json({
+        success: true,
+        data: preview,
+        timestamp: new Date()
+      });
+
+    } catch (error) {
+      logger.error('Failed to preview sync:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to preview sync',
+        timestamp: new Date()
+      });
+    }
+  }
+
+  /**
+   * Approve the deletions a sync was stopped for and run it again
+   */
+  public static async approveDeletions(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const syncId = req.params.id;
+
+      const sync = await syncEngine.getSyncJob(syncId);
+
+      if (!sync) {
+        res.status(404).json({
+          success: false,
+          error: 'Sync job not found',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      // Check if user owns the sync
+      if (sync.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      const run = await syncEngine.approvePendingDeletions(syncId);
+
+      await queueManager.addSyncJob({
+        syncJobId: syncId,
+        userId,
+        trigger: 'manual',
+        approvedRunId: run.id
+      });
+
+      res.status(200).json({
+        success: true,
+        data: run,
+        message: 'Deletions approved, sync job started',
+        timestamp: new Date()
+      });
+
+    } catch (error) {
+      logger.error('Failed to approve sync deletions:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to approve sync deletions',
+        timestamp: new Date()
+      });
+    }
+  }
+
   /**
    * Stop a sync job
    */
@@ -438,7 +552,6 @@ export class SyncController {
       const syncId = req.params.id;
       const page = parseInt(req.query.page as string) || 1;
       const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
-      const offset = (page - 1) * limit;
 
       const sync = await syncEngine.getSyncJob(syncId);
 
@@ -461,33 +574,27 @@ export class SyncController {
         return;
       }
 
-      // TODO: Implement sync history/logs retrieval
-      // For now, return basic sync information
-      const history = [
-        {
-          id: 'history-1',
-          syncId: syncId,
-          status: sync.lastSyncStatus,
-          startedAt: sync.lastSync,
-          completedAt: sync.lastSync,
-          filesProcessed: 0,
-          filesTransferred: 0,
-          bytesTransferred: 0,
-          errors: []
-        }
-      ];
+      const sortOrder = req.query.sortOrder === 'asc' ? 'asc' : 'desc';
+      const { runs, total } = await syncEngine.getSyncRuns(syncId, {
+        page,
+        limit,
+        sortBy: req.query.sortBy as string | undefined,
+        sortOrder
+      });
+
+      const totalPages = Math.ceil(total / limit);
 
       res.status(200).json({
         success: true,
         data: {
-          history,
+          history: runs,
           pagination: {
             page,
             limit,
-            total: history.length,
-            totalPages: 1,
-            hasNext: false,
-            hasPrev: false
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1
           }
         },
         timestamp: new Date()
@@ -503,6 +610,140 @@ export class SyncController {
     }
   }
 
+  /**
+   * Get the files handled by one run of a sync job
+   */
+  public static async getSyncRunFiles(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const syncId = req.params.id;
+      const runId = req.params.runId;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      const sync = await syncEngine.getSyncJob(syncId);
+
+      if (!sync) {
+        res.status(404).json({
+          success: false,
+          error: 'Sync job not found',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      // Check if user owns the sync
+      if (sync.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      // Run ids are UUIDs, anything else can't match a run
+      const run = isUuid(runId) ? await syncEngine.getSyncRun(runId) : null;
+
+      if (!run || run.syncJobId !== syncId) {
+        res.status(404).json({
+          success: false,
+          error: 'Sync run not found',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      const { files, total } = await syncEngine.getSyncRunFiles(runId, page, limit);
+      const totalPages = Math.ceil(total / limit);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          run,
+          files,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1
+          }
+        },
+        timestamp: new Date()
+      });
+
+    } catch (error) {
+      logger.error('Failed to get sync run files:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get sync run files',
+        timestamp: new Date()
+      });
+    }
+  }
+
+  /**
+   * Get conflicts recorded for a sync job
+   */
+  public static async getSyncConflicts(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const syncId = req.params.id;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const sync = await syncEngine.getSyncJob(syncId);
+
+      if (!sync) {
+        res.status(404).json({
+          success: false,
+          error: 'Sync job not found',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      // Check if user owns the sync
+      if (sync.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      const { conflicts, total } = await syncEngine.getSyncConflicts(syncId, page, limit);
+      const totalPages = Math.ceil(total / limit);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          conflicts,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1
+          }
+        },
+        timestamp: new Date()
+      });
+
+    } catch (error) {
+      logger.error('Failed to get sync conflicts:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get sync conflicts',
+        timestamp: new Date()
+      });
+    }
+  }
+
   /**
    * Get sync statistics for user
    */
@@ -551,6 +792,41 @@ export class SyncController {
     }
   }
 
+  /**
+   * Get when the user's scheduled syncs run over the next days
+   */
+  public static async getSyncSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const days = req.query.days === undefined ? 7 : parseInt(req.query.days as string);
+
+      if (isNaN(days) || days < 1 || days > 31) {
+        res.status(400).json({
+          success: false,
+          error: 'days must be between 1 and 31',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      const schedule = await syncEngine.getSyncSchedule(userId, days);
+
+      res.status(200).json({
+        success: true,
+        data: schedule,
+        timestamp: new Date()
+      });
+
+    } catch (error) {
+      logger.error('Failed to get sync schedule:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get sync schedule',
+        timestamp: new Date()
+      });
+    }
+  }
+
   /**
    * Validate cron expression
    */
@@ -571,13 +847,15 @@ export class SyncController {
       const isValid = cron.validate(cronExpression);
 
       if (isValid) {
-        // Calculate next few run times
+        // Next few run times, in UTC like scheduled syncs
         const now = new Date();
-        const nextRuns = [];
-        
-        // TODO: Implement proper next run calculation
-        // For now, just return validation result
-        
+        const nextRuns = CronSchedule.between(
+          cronExpression,
+          now,
+          new Date(now.getTime() + CronSchedule.MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000),
+          5
+        );
+
         res.status(200).json({
           success: true,
           data: {
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { TransferJob, TransferStatus, FileFilter, TransferOptions } from '../types';
 import { transferEngine, CreateTransferJobRequest } from '../services/TransferEngine';
 import { queueManager } from '../services/QueueManager';
+import { transferPreflight, TransferPreflightRequest } from '../services/TransferPreflight';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -83,6 +84,58 @@ export class TransferController {
     }
   }
 
+  /**
+   * Estimate the size and duration of a transfer before creating it
+   */
+  public static async estimateTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      const preflightRequest = TransferController.getPreflightRequest(req, res);
+      if (!preflightRequest) return;
+
+      const estimate = await transferPreflight.estimate(preflightRequest);
+
+      res.status(200).json({
+        success: true,
+        data: estimate,
+        timestamp: new Date()
+      });
+
+    } catch (error) {
+      logger.error('Failed to estimate transfer:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to estimate transfer',
+        timestamp: new Date()
+      });
+    }
+  }
+
+  /**
+   * Check a transfer for blocking problems before creating it
+   */
+  public static async validateTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      const preflightRequest = TransferController.getPreflightRequest(req, res);
+      if (!preflightRequest) return;
+
+      const validation = await transferPreflight.validate(preflightRequest);
+
+      res.status(200).json({
+        success: true,
+        data: validation,
+        timestamp: new Date()
+      });
+
+    } catch (error) {
+      logger.error('Failed to validate transfer:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to validate transfer',
+        timestamp: new Date()
+      });
+    }
+  }
+
   /**
    * List transfer jobs for user
    */
@@ -359,6 +412,108 @@ export class TransferController {
     }
   }
 
+  /**
+   * Retry the failed files of a transfer as a new child job
+   */
+  public static async retryTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const transferId = req.params.id;
+
+      const transfer = await transferEngine.getTransferJob(transferId);
+
+      if (!transfer) {
+        res.status(404).json({
+          success: false,
+          error: 'Transfer job not found',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      // Check if user owns the transfer
+      if (transfer.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      const retryJob = await transferEngine.createRetryTransfer(transferId);
+
+      // Add to queue for background processing
+      await queueManager.addTransferJob({
+        transferJobId: retryJob.id,
+        userId
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { transfer: retryJob },
+        message: 'Retry transfer job created successfully',
+        timestamp: new Date()
+      });
+
+    } catch (error) {
+      logger.error('Failed to retry transfer:', error);
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retry transfer',
+        timestamp: new Date()
+      });
+    }
+  }
+
+  /**
+   * List the per-file results of a transfer, optionally by status
+   */
+  public static async getTransferFiles(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const transferId = req.params.id;
+      const status = req.query.status as string | undefined;
+
+      const transfer = await transferEngine.getTransferJob(transferId);
+
+      if (!transfer) {
+        res.status(404).json({
+          success: false,
+          error: 'Transfer job not found',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      // Check if user owns the transfer
+      if (transfer.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      const files = await transferEngine.getFileLogs(transferId);
+
+      res.status(200).json({
+        success: true,
+        data: { files: status ? files.filter(file => file.status === status) : files },
+        timestamp: new Date()
+      });
+
+    } catch (error) {
+      logger.error('Failed to get transfer files:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get transfer files',
+        timestamp: new Date()
+      });
+    }
+  }
+
   /**
    * Get transfer progress
    */
@@ -533,4 +688,30 @@ export class TransferController {
       });
     }
   }
-}
\ No newline at end of file
+
+  // Helper methods
+
+  private static getPreflightRequest(req: Request, res: Response): TransferPreflightRequest | null {
+    const transferRequest: CreateTransferRequest = req.body;
+
+    if (!transferRequest.sourceCloudId || !transferRequest.destinationCloudId ||
+        !transferRequest.sourcePath || !transferRequest.destinationPath) {
+      res.status(400).json({
+        success: false,
+        error: 'Source cloud, destination cloud, source path, and destination path are required',
+        timestamp: new Date()
+      });
+      return null;
+    }
+
+    return {
+      userId: req.userId!,
+      sourceCloudId: transferRequest.sourceCloudId,
+      destinationCloudId: transferRequest.destinationCloudId,
+      sourcePath: transferRequest.sourcePath,
+      destinationPath: transferRequest.destinationPath,
+      filters: transferRequest.filters,
+      options: transferRequest.options
+    };
+  }
+}
@@ -77,7 +77,22 @@ async function runMigrations(): Promise<void> {
     // Define migration files in order
     const migrationFiles = [
       { name: 'create_schema', filename: '01-schema.sql' },
-      { name: 'seed_data', filename: '02-seed.sql' }
+      { name: 'seed_data', filename: '02-seed.sql' },
+      { name: 'integrity_checksums', filename: '03-integrity-checksums.sql' },
+      { name: 'source_deletion_audit', filename: '04-source-deletion-audit.sql' },
+      { name: 'transfer_checkpoints', filename: '05-transfer-checkpoints.sql' },
+      { name: 'job_leases', filename: '06-job-leases.sql' },
+      { name: 'transfer_retries', filename: '07-transfer-retries.sql' },
+      { name: 'file_retries', filename: '08-file-retries.sql' },
+      { name: 'sync_baselines', filename: '09-sync-baselines.sql' },
+      { name: 'sync_conflicts', filename: '10-sync-conflicts.sql' },
+      { name: 'sync_runs', filename: '11-sync-runs.sql' },
+      { name: 'sync_deletion_approval', filename: '12-sync-deletion-approval.sql' },
+      { name: 'file_hashes', filename: '13-file-hashes.sql' },
+      { name: 'sync_change_cursors', filename: '14-sync-change-cursors.sql' },
+      { name: 'sync_watch_trigger', filename: '15-sync-watch-trigger.sql' },
+      { name: 'sync_blocked_status', filename: '16-sync-blocked-status.sql' },
+      { name: 'sync_cancelled_status', filename: '17-sync-cancelled-status.sql' }
     ];
     
     for (const migration of migrationFiles) {
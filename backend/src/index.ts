@@ -11,6 +11,7 @@ import swaggerUi from 'swagger-ui-express';
 import { initializeDatabase, closeDatabase, checkDatabaseHealth } from './database/connection';
 import { cloudProviderFactory } from './providers/CloudProviderFactory';
 import { queueManager, queueScheduler } from './services/QueueManager';
+import { syncWatcher } from './services/SyncWatcher';
 import { initializeWebSocketService, getWebSocketService } from './services/WebSocketService';
 import apiRouter from './routes/api';
 import { handleAuthError } from './middleware/auth';
@@ -209,6 +210,15 @@ class CloudsLinkerServer {
       webSocketService.broadcastSyncProgress(job);
     });
 
+    syncEngine.on('syncDeletionsBlocked', ({ job, runId, reason, pendingDeletions }: any) => {
+      webSocketService.broadcastNotification(job.userId, {
+        type: 'warning',
+        title: '삭제 승인 필요',
+        message: `동기화가 많은 파일을 삭제하려고 해서 중단되었습니다. 확인 후 승인하면 계속됩니다: ${reason}`,
+        data: { syncJobId: job.id, runId, pendingDeletions }
+      });
+    });
+
     // Queue events
     queueManager.on('jobCompleted', ({ queueName, job, result }) => {
       if (job.data.userId) {
@@ -305,6 +315,20 @@ class CloudsLinkerServer {
       await cloudProviderFactory.autoRegisterProviders();
       logger.info('Cloud providers registered successfully');
 
+      // Pick up jobs a previous process left running
+      try {
+        await queueManager.recoverInterruptedJobs();
+      } catch (error) {
+        logger.error('Failed to recover interrupted jobs:', error);
+      }
+
+      // Run continuous syncs when their files change
+      try {
+        await syncWatcher.start();
+      } catch (error) {
+        logger.error('Failed to start sync watcher:', error);
+      }
+
       // Start server
       this.server.listen(this.port, () => {
         logger.info(`CloudsLinker server started on port ${this.port}`);
@@ -342,6 +366,9 @@ class CloudsLinkerServer {
         logger.warn('WebSocket service was not initialized or already closed');
       }
 
+      // Stop queueing syncs before the queues close
+      syncWatcher.stop();
+
       // Shutdown queue manager
       await queueManager.shutdown();
       queueScheduler.shutdown();
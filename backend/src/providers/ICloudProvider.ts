@@ -1,12 +1,16 @@
-import { Readable } from 'stream';
+import { Readable, Transform } from 'stream';
 import {
+  ByteRange,
+  ChecksumAlgorithm,
+  FileChangeSet,
   FileItem,
   FileFilter,
   CloudCredentials,
   CloudProviderConfig,
   CloudProviderCapabilities,
   CloudQuota,
-  TransferProgress
+  TransferProgress,
+  UploadSession
 } from '../types';
 
 /**
@@ -73,9 +77,10 @@ export interface ICloudProvider {
   /**
    * Download a file as a readable stream
    * @param path The path to the file to download
-   * @returns Promise that resolves to a readable stream
+   * @param range Byte range to download (optional)
+   * @returns Promise that resolves to a readable stream of the file or range
    */
-  downloadFile(path: string): Promise<Readable>;
+  downloadFile(path: string, range?: ByteRange): Promise<Readable>;
 
   /**
    * Upload a file from a readable stream
@@ -130,6 +135,34 @@ export interface ICloudProvider {
    */
   getDownloadUrl(path: string, expiresIn?: number): Promise<string>;
 
+  /**
+   * Set the modification time of a file (if supported)
+   * @param path The path to the file
+   * @param modifiedAt The modification time to store
+   * @returns Promise that resolves to the updated file information
+   */
+  setModifiedTime?(path: string, modifiedAt: Date): Promise<FileItem>;
+
+  /**
+   * Get a content hash computed by the provider (if supported)
+   * @param path The path to the file
+   * @param algorithm One of capabilities.supportedHashes
+   * @returns Promise that resolves to the hex digest, or undefined when the provider has none
+   */
+  getFileHash?(path: string, algorithm: ChecksumAlgorithm): Promise<string | undefined>;
+
+  /**
+   * Get what changed below a folder since a cursor (if supported). Only
+   * WebDAV implements it, by comparing listings, so it doesn't set
+   * capabilities.supportsChangeFeed; PikPak and Synology expose no change
+   * feed this can rely on.
+   * @param path The folder to watch
+   * @param cursor Cursor of the previous call (optional, every entry is returned as created without one)
+   * @param options Filters and depth limit of the caller's walk
+   * @returns Promise that resolves to the changes and the cursor to continue from
+   */
+  getChanges?(path: string, cursor?: string, options?: ChangeFeedOptions): Promise<FileChangeSet>;
+
   /**
    * Get upload progress for chunked uploads (if supported)
    * @param uploadId The upload session ID
@@ -177,11 +210,21 @@ export interface UploadOptions {
    */
   chunkSize?: number;
 
+  /**
+   * Parts uploaded at once by segmented uploads
+   */
+  parallelParts?: number;
+
   /**
    * Whether to preserve original timestamps
    */
   preserveTimestamps?: boolean;
 
+  /**
+   * Modification time to store when preserveTimestamps is set
+   */
+  modifiedAt?: Date;
+
   /**
    * Progress callback function
    */
@@ -191,6 +234,44 @@ export interface UploadOptions {
    * Custom metadata to attach to the file
    */
   metadata?: Record<string, any>;
+
+  /**
+   * Upload session to continue (providers with supportsResume only).
+   * The stream starts at session.bytesUploaded.
+   */
+  resumeSession?: UploadSession;
+
+  /**
+   * Called when a resumable upload session is opened or advances
+   */
+  onSessionUpdate?: (session: UploadSession) => void;
+}
+
+/**
+ * Change feed options interface
+ */
+export interface ChangeFeedOptions {
+  /**
+   * Filters of the caller's walk. Feeds may report entries they exclude,
+   * callers apply them again.
+   */
+  filters?: FileFilter;
+
+  /**
+   * Folder levels below the path to report, unlimited when undefined
+   */
+  maxDepth?: number;
+
+  /**
+   * Called between listings, stops the feed early when it returns true
+   */
+  shouldStop?: () => boolean;
+
+  /**
+   * Entries below the path as of the cursor. Feeds that compare listings
+   * diff against these and start over without them.
+   */
+  files?: FileItem[];
 }
 
 /**
@@ -222,7 +303,7 @@ export abstract class BaseCloudProvider implements ICloudProvider {
   abstract listFiles(path: string, filters?: FileFilter): Promise<FileItem[]>;
   abstract getFileInfo(path: string): Promise<FileItem>;
   abstract createFolder(path: string): Promise<FileItem>;
-  abstract downloadFile(path: string): Promise<Readable>;
+  abstract downloadFile(path: string, range?: ByteRange): Promise<Readable>;
   abstract uploadFile(path: string, stream: Readable, options?: UploadOptions): Promise<FileItem>;
   abstract deleteFile(path: string): Promise<void>;
   abstract moveFile(sourcePath: string, destinationPath: string): Promise<FileItem>;
@@ -295,67 +376,106 @@ export abstract class BaseCloudProvider implements ICloudProvider {
   }
 
   /**
-   * Helper method to apply file filters
+   * Helper method to build an HTTP Range header value
    */
-  protected applyFilters(files: FileItem[], filters?: FileFilter): FileItem[] {
-    if (!filters) return files;
+  protected formatRange(range: ByteRange): string {
+    return `bytes=${range.start}-${range.end ?? ''}`;
+  }
 
-    return files.filter(file => {
-      // Apply include patterns
-      if (filters.includePatterns && filters.includePatterns.length > 0) {
-        const included = filters.includePatterns.some(pattern =>
-          this.matchesPattern(file.name, pattern)
-        );
-        if (!included) return false;
-      }
+  /**
+   * Helper method to cut a full-file stream down to a range, for servers
+   * that answer a Range request with the whole file
+   */
+  protected sliceToRange(stream: Readable, range: ByteRange): Readable {
+    let position = 0;
+    const end = range.end ?? Infinity;
 
-      // Apply exclude patterns
-      if (filters.excludePatterns && filters.excludePatterns.length > 0) {
-        const excluded = filters.excludePatterns.some(pattern =>
-          this.matchesPattern(file.name, pattern)
-        );
-        if (excluded) return false;
-      }
+    const slice = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        const chunkStart = position;
+        position += chunk.length;
 
-      // Apply size filters
-      if (file.size !== undefined) {
-        if (filters.minSize !== undefined && file.size < filters.minSize) {
-          return false;
-        }
-        if (filters.maxSize !== undefined && file.size > filters.maxSize) {
-          return false;
-        }
-      }
+        const from = Math.max(range.start - chunkStart, 0);
+        const to = Math.min(end + 1 - chunkStart, chunk.length);
 
-      // Apply date filters
-      if (file.modifiedAt) {
-        if (filters.modifiedAfter && file.modifiedAt < filters.modifiedAfter) {
-          return false;
-        }
-        if (filters.modifiedBefore && file.modifiedAt > filters.modifiedBefore) {
-          return false;
-        }
+        callback(null, from < to ? chunk.subarray(from, to) : undefined);
       }
-
-      return true;
     });
+
+    stream.on('error', error => slice.destroy(error));
+    return stream.pipe(slice);
   }
 
   /**
-   * Helper method to match file names against patterns (simple glob-like matching)
+   * Helper method to apply file filters
    */
-  private matchesPattern(filename: string, pattern: string): boolean {
-    // Convert glob pattern to regex
-    const regexPattern = pattern
-      .replace(/\./g, '\\.')
-      .replace(/\*/g, '.*')
-      .replace(/\?/g, '.');
-    
-    const regex = new RegExp(`^${regexPattern}$`, 'i');
-    return regex.test(filename);
+  protected applyFilters(files: FileItem[], filters?: FileFilter): FileItem[] {
+    if (!filters) return files;
+
+    return files.filter(file => matchesFileFilter(file, filters));
   }
 }
 
+/**
+ * Check whether a single file item passes the given filters
+ */
+export function matchesFileFilter(file: FileItem, filters?: FileFilter): boolean {
+  if (!filters) return true;
+
+  // Apply include patterns
+  if (filters.includePatterns && filters.includePatterns.length > 0) {
+    const included = filters.includePatterns.some(pattern =>
+      matchesPattern(file.name, pattern)
+    );
+    if (!included) return false;
+  }
+
+  // Apply exclude patterns
+  if (filters.excludePatterns && filters.excludePatterns.length > 0) {
+    const excluded = filters.excludePatterns.some(pattern =>
+      matchesPattern(file.name, pattern)
+    );
+    if (excluded) return false;
+  }
+
+  // Apply size filters
+  if (file.size !== undefined) {
+    if (filters.minSize !== undefined && file.size < filters.minSize) {
+      return false;
+    }
+    if (filters.maxSize !== undefined && file.size > filters.maxSize) {
+      return false;
+    }
+  }
+
+  // Apply date filters (filters coming from JSON carry ISO strings)
+  if (file.modifiedAt) {
+    const modifiedAt = new Date(file.modifiedAt);
+    if (filters.modifiedAfter && modifiedAt < new Date(filters.modifiedAfter)) {
+      return false;
+    }
+    if (filters.modifiedBefore && modifiedAt > new Date(filters.modifiedBefore)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Match file names against patterns (simple glob-like matching)
+ */
+export function matchesPattern(filename: string, pattern: string): boolean {
+  // Convert glob pattern to regex
+  const regexPattern = pattern
+    .replace(/\./g, '\\.')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  
+  const regex = new RegExp(`^${regexPattern}$`, 'i');
+  return regex.test(filename);
+}
+
 /**
  * Cloud provider factory interface
  */
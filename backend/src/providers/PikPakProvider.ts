@@ -14,7 +14,9 @@ import {
   CloudProviderCapabilities,
   CloudQuota,
   TransferProgress,
-  OAuthCredentials
+  OAuthCredentials,
+  UploadSession,
+  ByteRange
 } from '../types';
 import {
   AuthenticationError,
@@ -22,12 +24,13 @@ import {
   NetworkError,
   RateLimitError,
   NotFoundError,
-  FileExistsError,
+  InvalidOperationError,
   InsufficientStorageError,
   FileSizeLimitError,
   APIError,
   createErrorFromResponse
 } from './errors';
+import { SegmentedUpload, UploadPart, SEGMENTED_UPLOAD_THRESHOLD } from './SegmentedUpload';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -44,6 +47,14 @@ const logger = winston.createLogger({
   ]
 });
 
+interface SegmentedUploadState {
+  path: string;
+  session: UploadSession & { partSize: number };
+  options: UploadOptions;
+  upload?: SegmentedUpload; // the latest attempt
+  running?: boolean;
+}
+
 /**
  * PikPak cloud storage provider implementation
  * Supports OAuth 2.0 authentication and file operations
@@ -60,6 +71,11 @@ export class PikPakProvider extends BaseCloudProvider implements ICloudProvider
     supportsCopy: false, // PikPak doesn't support direct copy
     supportsResume: true,
     supportsChunkedUpload: true,
+    supportsRangeDownload: true,
+    supportsModifiedTime: true, // Set after upload
+    supportsChangeFeed: false, // No documented change feed
+    checksumAlgorithm: 'md5',
+    supportedHashes: ['md5'], // From listings
     maxFileSize: 50 * 1024 * 1024 * 1024, // 50GB
     supportedMimeTypes: undefined // PikPak supports most file types
   };
@@ -71,6 +87,7 @@ export class PikPakProvider extends BaseCloudProvider implements ICloudProvider
   private readonly apiEndpoint: string;
   private readonly clientId: string;
   private readonly clientSecret: string;
+  private segmentedUploads = new Map<string, SegmentedUploadState>();
 
   constructor(config: CloudProviderConfig = {}) {
     super({
@@ -269,7 +286,7 @@ export class PikPakProvider extends BaseCloudProvider implements ICloudProvider
   /**
    * Download a file
    */
-  public async downloadFile(path: string): Promise<Readable> {
+  public async downloadFile(path: string, range?: ByteRange): Promise<Readable> {
     this.ensureAuthenticated();
     this.validatePath(path);
     
@@ -286,10 +303,11 @@ export class PikPakProvider extends BaseCloudProvider implements ICloudProvider
       
       // Download file as stream
       const response = await this.httpClient.get(downloadUrl, {
+        ...(range && { headers: { Range: this.formatRange(range) } }),
         responseType: 'stream'
       });
       
-      return response.data;
+      return range && response.status !== 206 ? this.sliceToRange(response.data, range) : response.data;
     } catch (error) {
       logger.error(`Failed to download PikPak file ${path}:`, error);
       throw this.handleError(error, 'downloadFile');
@@ -321,17 +339,36 @@ export class PikPakProvider extends BaseCloudProvider implements ICloudProvider
         );
       }
 
-      // Create upload session
-      const uploadResponse = await this.httpClient.post('/drive/v1/files/upload', {
-        kind: 'drive#file',
-        parent_id: parentId,
-        name: fileName,
-        size: options?.fileSize,
-        mime_type: options?.mimeType
-      });
+      // Create an upload session, or continue the one we were given
+      let session = options?.resumeSession;
+
+      if (!session) {
+        const uploadResponse = await this.httpClient.post('/drive/v1/files/upload', {
+          kind: 'drive#file',
+          parent_id: parentId,
+          name: fileName,
+          size: options?.fileSize,
+          mime_type: options?.mimeType
+        });
+
+        session = {
+          uploadId: uploadResponse.data.upload_id,
+          uploadUrl: uploadResponse.data.upload_url,
+          bytesUploaded: 0,
+          ...(this.shouldSegment(options) && { partSize: options?.chunkSize || this.config.chunkSize! })
+        };
+      }
 
-      const uploadId = uploadResponse.data.upload_id;
-      const uploadUrl = uploadResponse.data.upload_url;
+      if (session.partSize) {
+        return await this.runSegmentedUpload(
+          { path: normalizedPath, session: { ...session, partSize: session.partSize }, options: options || {} },
+          stream
+        );
+      }
+
+      const { uploadId, uploadUrl } = session;
+      const offset = session.bytesUploaded;
+      options?.onSessionUpdate?.({ ...session });
 
       // Upload file content
       const formData = new FormData();
@@ -340,13 +377,18 @@ export class PikPakProvider extends BaseCloudProvider implements ICloudProvider
         contentType: options?.mimeType
       });
 
-      const uploadContentResponse = await axios.post(uploadUrl, formData, {
+      const uploadContentResponse = await axios.post(uploadUrl!, formData, {
         headers: {
           ...formData.getHeaders(),
-          'Authorization': `Bearer ${this.accessToken}`
+          'Authorization': `Bearer ${this.accessToken}`,
+          ...(offset > 0 && options?.fileSize
+            ? { 'Content-Range': `bytes ${offset}-${options.fileSize - 1}/${options.fileSize}` }
+            : {})
         },
         timeout: this.config.timeout,
         onUploadProgress: (progressEvent) => {
+          options?.onSessionUpdate?.({ uploadId, uploadUrl, bytesUploaded: offset + progressEvent.loaded });
+
           if (options?.onProgress && progressEvent.total) {
             const progress: TransferProgress = {
               jobId: uploadId,
@@ -374,6 +416,45 @@ export class PikPakProvider extends BaseCloudProvider implements ICloudProvider
     }
   }
 
+  /**
+   * Get progress of a segmented upload started by this provider
+   */
+  public async getUploadProgress(uploadId: string): Promise<TransferProgress> {
+    return this.getSegmentedUpload(uploadId).upload!.getProgress();
+  }
+
+  /**
+   * Cancel a segmented upload and forget its session
+   */
+  public async cancelUpload(uploadId: string): Promise<void> {
+    const state = this.getSegmentedUpload(uploadId);
+
+    if (state.running) {
+      state.upload!.cancel();
+    }
+    this.segmentedUploads.delete(uploadId);
+  }
+
+  /**
+   * Continue an interrupted segmented upload. The stream must start at the
+   * session's bytesUploaded.
+   */
+  public async resumeUpload(uploadId: string, stream: Readable): Promise<FileItem> {
+    this.ensureAuthenticated();
+
+    const state = this.getSegmentedUpload(uploadId);
+    if (state.running) {
+      throw new InvalidOperationError(`Upload ${uploadId} is still running`, this.providerType, 409);
+    }
+
+    try {
+      return await this.runSegmentedUpload(state, stream);
+    } catch (error) {
+      logger.error(`Failed to resume PikPak upload ${uploadId}:`, error);
+      throw this.handleError(error, 'resumeUpload');
+    }
+  }
+
   /**
    * Delete a file or folder
    */
@@ -420,6 +501,27 @@ export class PikPakProvider extends BaseCloudProvider implements ICloudProvider
     }
   }
 
+  /**
+   * Set modification time through the file metadata endpoint
+   */
+  public async setModifiedTime(path: string, modifiedAt: Date): Promise<FileItem> {
+    this.ensureAuthenticated();
+    this.validatePath(path);
+
+    try {
+      const fileId = await this.getFileIdByPath(this.normalizePath(path));
+
+      const response = await this.httpClient.patch(`/drive/v1/files/${fileId}`, {
+        modified_time: modifiedAt.toISOString()
+      });
+
+      return this.mapPikPakFileToFileItem(response.data);
+    } catch (error) {
+      logger.error(`Failed to set PikPak modification time for ${path}:`, error);
+      throw this.handleError(error, 'setModifiedTime');
+    }
+  }
+
   /**
    * Copy file (not directly supported by PikPak, throws error)
    */
@@ -579,6 +681,78 @@ export class PikPakProvider extends BaseCloudProvider implements ICloudProvider
     return currentId;
   }
 
+  private shouldSegment(options?: UploadOptions): boolean {
+    return !!options?.fileSize && options.fileSize >= SEGMENTED_UPLOAD_THRESHOLD;
+  }
+
+  /**
+   * Upload the stream in parts. The session is kept after a failure so
+   * resumeUpload can continue it.
+   */
+  private async runSegmentedUpload(state: SegmentedUploadState, stream: Readable): Promise<FileItem> {
+    const { path, session, options } = state;
+    const fileName = path.split('/').pop();
+
+    const upload = new SegmentedUpload(
+      session,
+      stream,
+      options.fileSize!,
+      (part, data) => this.uploadPart(session, part, data, options.fileSize!),
+      {
+        parallelParts: options.parallelParts,
+        retryAttempts: this.config.retryAttempts,
+        onSessionUpdate: updated => {
+          state.session = { ...updated, partSize: session.partSize };
+          options.onSessionUpdate?.(updated);
+        },
+        onProgress: progress => options.onProgress?.({ ...progress, currentFile: fileName })
+      }
+    );
+
+    state.upload = upload;
+    state.running = true;
+    this.segmentedUploads.set(session.uploadId, state);
+    options.onSessionUpdate?.(upload.getSession());
+
+    try {
+      await upload.run();
+    } finally {
+      state.running = false;
+    }
+
+    this.segmentedUploads.delete(session.uploadId);
+
+    // Parts are answered one by one, so read the finished file back
+    return await this.getFileInfo(path);
+  }
+
+  private async uploadPart(session: UploadSession, part: UploadPart, data: Buffer, fileSize: number): Promise<void> {
+    try {
+      const formData = new FormData();
+      formData.append('file', data, { filename: `part-${part.partNumber}` });
+
+      await axios.post(session.uploadUrl!, formData, {
+        headers: {
+          ...formData.getHeaders(),
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Range': `bytes ${part.offset}-${part.offset + part.size - 1}/${fileSize}`
+        },
+        timeout: this.config.timeout
+      });
+    } catch (error) {
+      throw this.handleError(error, 'uploadPart');
+    }
+  }
+
+  private getSegmentedUpload(uploadId: string): SegmentedUploadState {
+    const state = this.segmentedUploads.get(uploadId);
+    if (!state) {
+      throw new NotFoundError(`Upload not found: ${uploadId}`, this.providerType, uploadId);
+    }
+
+    return state;
+  }
+
   private async getFileIdByPath(path: string): Promise<string> {
     const pathParts = path.split('/').filter(part => part);
     const fileName = pathParts.pop();
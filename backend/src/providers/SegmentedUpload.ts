@@ -0,0 +1,215 @@
+import { Readable } from 'stream';
+import { TransferProgress, UploadSession } from '../types';
+import { isRetryableError } from './errors';
+
+// Files at least this large are uploaded in parts by providers that support it
+export const SEGMENTED_UPLOAD_THRESHOLD = parseInt(process.env.SEGMENTED_UPLOAD_THRESHOLD || String(64 * 1024 * 1024));
+export const DEFAULT_PARALLEL_PARTS = parseInt(process.env.UPLOAD_PARALLEL_PARTS || '4');
+
+export interface UploadPart {
+  partNumber: number; // 0-based
+  offset: number;
+  size: number;
+}
+
+export interface SegmentedUploadOptions {
+  parallelParts?: number;
+  retryAttempts?: number; // attempts per part, including the first
+  onProgress?: (progress: TransferProgress) => void;
+  onSessionUpdate?: (session: UploadSession) => void;
+}
+
+/**
+ * Uploads a stream as fixed-size parts, several at a time. The stream is read
+ * in order and at most parallelParts parts are held in memory.
+ *
+ * session.bytesUploaded only covers the parts stored without a gap, so a
+ * resumed stream starting there lines up with a part boundary; parts stored
+ * after a gap are kept in session.completedParts and skipped on resume.
+ */
+export class SegmentedUpload {
+  private readonly session: UploadSession & { partSize: number };
+  private readonly completedParts: Set<number>;
+  private readonly inFlight = new Set<Promise<void>>();
+  private bytesStored = 0;
+  private failure?: Error;
+  private cancelled = false;
+  private status: TransferProgress['status'] = 'pending';
+
+  constructor(
+    session: UploadSession & { partSize: number },
+    private readonly stream: Readable,
+    private readonly totalSize: number,
+    private readonly uploadPart: (part: UploadPart, data: Buffer) => Promise<void>,
+    private readonly options: SegmentedUploadOptions = {}
+  ) {
+    this.session = { ...session };
+    this.completedParts = new Set(session.completedParts || []);
+
+    const firstPart = Math.floor(session.bytesUploaded / session.partSize);
+    for (let partNumber = 0; partNumber < firstPart; partNumber++) {
+      this.completedParts.add(partNumber);
+    }
+
+    for (const partNumber of this.completedParts) {
+      this.bytesStored += this.getPart(partNumber).size;
+    }
+  }
+
+  public get uploadId(): string {
+    return this.session.uploadId;
+  }
+
+  /**
+   * Upload all parts. Resolves with the final session once every part is stored.
+   */
+  public async run(): Promise<UploadSession> {
+    const { partSize } = this.session;
+    let partNumber = Math.floor(this.session.bytesUploaded / partSize);
+    let buffered: Buffer[] = [];
+    let bufferedBytes = 0;
+
+    this.status = 'running';
+
+    try {
+      for await (const chunk of this.stream) {
+        buffered.push(chunk);
+        bufferedBytes += chunk.length;
+
+        while (bufferedBytes >= partSize) {
+          const data = Buffer.concat(buffered);
+          buffered = [data.subarray(partSize)];
+          bufferedBytes -= partSize;
+
+          await this.schedule(partNumber++, data.subarray(0, partSize));
+        }
+      }
+
+      if (bufferedBytes > 0) {
+        await this.schedule(partNumber, Buffer.concat(buffered));
+      }
+
+      await Promise.all(this.inFlight);
+    } catch (error) {
+      this.fail(error);
+    }
+
+    if (this.failure) {
+      await Promise.all(this.inFlight);
+      this.status = this.cancelled ? 'cancelled' : 'failed';
+      throw this.failure;
+    }
+
+    if (this.completedParts.size < this.getPartCount()) {
+      this.status = 'failed';
+      throw new Error(`Upload ended after ${this.bytesStored} of ${this.totalSize} bytes`);
+    }
+
+    this.status = 'completed';
+    return { ...this.session };
+  }
+
+  /**
+   * Stop reading and uploading. Parts already stored stay in the session.
+   */
+  public cancel(): void {
+    this.cancelled = true;
+    this.fail(new Error('Upload cancelled'));
+  }
+
+  public getSession(): UploadSession {
+    return { ...this.session };
+  }
+
+  public getProgress(): TransferProgress {
+    return {
+      jobId: this.session.uploadId,
+      status: this.status,
+      progressPercentage: this.totalSize > 0 ? Math.round((this.bytesStored / this.totalSize) * 100) : 0,
+      filesTotal: 1,
+      filesCompleted: this.status === 'completed' ? 1 : 0,
+      filesFailed: this.status === 'failed' ? 1 : 0,
+      bytesTotal: this.totalSize,
+      bytesTransferred: this.bytesStored,
+      transferSpeed: 0, // Calculate separately
+      estimatedTimeRemaining: 0, // Calculate separately
+      updatedAt: new Date()
+    };
+  }
+
+  // Private helper methods
+
+  private async schedule(partNumber: number, data: Buffer): Promise<void> {
+    if (this.failure) throw this.failure;
+
+    // Stored before the upload was interrupted
+    if (this.completedParts.has(partNumber)) return;
+
+    while (this.inFlight.size >= Math.max(this.options.parallelParts || DEFAULT_PARALLEL_PARTS, 1)) {
+      await Promise.race(this.inFlight);
+      if (this.failure) throw this.failure;
+    }
+
+    const upload: Promise<void> = this.uploadWithRetry(this.getPart(partNumber), data)
+      .catch(error => this.fail(error))
+      .finally(() => this.inFlight.delete(upload));
+
+    this.inFlight.add(upload);
+  }
+
+  private async uploadWithRetry(part: UploadPart, data: Buffer): Promise<void> {
+    const retryAttempts = Math.max(this.options.retryAttempts || 3, 1);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.uploadPart(part, data);
+        break;
+      } catch (error) {
+        if (this.failure || attempt >= retryAttempts || !isRetryableError(error)) {
+          throw error;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt - 1)));
+      }
+    }
+
+    this.completePart(part);
+  }
+
+  private completePart(part: UploadPart): void {
+    this.completedParts.add(part.partNumber);
+    this.bytesStored += part.size;
+
+    // Advance the gap-free prefix and keep only the parts past it
+    let nextPart = Math.floor(this.session.bytesUploaded / this.session.partSize);
+    while (this.completedParts.has(nextPart)) {
+      nextPart++;
+    }
+
+    this.session.bytesUploaded = Math.min(nextPart * this.session.partSize, this.totalSize);
+    this.session.completedParts = [...this.completedParts].filter(partNumber => partNumber > nextPart).sort((a, b) => a - b);
+
+    this.options.onSessionUpdate?.(this.getSession());
+    this.options.onProgress?.(this.getProgress());
+  }
+
+  private fail(error: unknown): void {
+    if (this.failure) return;
+
+    this.failure = error instanceof Error ? error : new Error(String(error));
+    this.stream.destroy();
+  }
+
+  private getPart(partNumber: number): UploadPart {
+    const offset = partNumber * this.session.partSize;
+    return {
+      partNumber,
+      offset,
+      size: Math.max(Math.min(this.session.partSize, this.totalSize - offset), 0)
+    };
+  }
+
+  private getPartCount(): number {
+    return Math.ceil(this.totalSize / this.session.partSize);
+  }
+}
@@ -14,7 +14,9 @@ import {
   CloudProviderCapabilities,
   CloudQuota,
   TransferProgress,
-  AccountCredentials
+  AccountCredentials,
+  ByteRange,
+  ChecksumAlgorithm
 } from '../types';
 import {
   AuthenticationError,
@@ -58,7 +60,14 @@ export class SynologyProvider extends BaseCloudProvider implements ICloudProvide
     supportsMove: true,
     supportsCopy: true,
     supportsResume: false, // DSM API doesn't support resumable uploads
-    supportsChunkedUpload: true,
+    supportsRangeDownload: true,
+    // SYNO.FileStation.Upload has no part or offset parameters, so large
+    // files can't go up in segments and stay on the single-request upload
+    supportsChunkedUpload: false,
+    supportsModifiedTime: true, // Set on upload only
+    supportsChangeFeed: false, // FileStation has no change feed
+    checksumAlgorithm: undefined, // FileStation listings don't include hashes
+    supportedHashes: ['md5'], // Computed by SYNO.FileStation.MD5
     maxFileSize: 2 * 1024 * 1024 * 1024, // 2GB (typical DSM limit)
     supportedMimeTypes: undefined // Synology supports all file types
   };
@@ -290,7 +299,7 @@ export class SynologyProvider extends BaseCloudProvider implements ICloudProvide
   /**
    * Download a file
    */
-  public async downloadFile(path: string): Promise<Readable> {
+  public async downloadFile(path: string, range?: ByteRange): Promise<Readable> {
     this.ensureAuthenticated();
     this.validatePath(path);
     
@@ -306,10 +315,11 @@ export class SynologyProvider extends BaseCloudProvider implements ICloudProvide
           mode: 'download',
           _sid: this.sessionId
         },
+        ...(range && { headers: { Range: this.formatRange(range) } }),
         responseType: 'stream'
       });
       
-      return response.data;
+      return range && response.status !== 206 ? this.sliceToRange(response.data, range) : response.data;
     } catch (error) {
       logger.error(`Failed to download Synology file ${path}:`, error);
       throw this.handleError(error, 'downloadFile');
@@ -353,6 +363,11 @@ export class SynologyProvider extends BaseCloudProvider implements ICloudProvide
         formData.append('SynoToken', this.synoToken);
       }
 
+      // FileStation only takes modification times with the upload itself
+      if (options?.preserveTimestamps && options.modifiedAt) {
+        formData.append('mtime', String(options.modifiedAt.getTime()));
+      }
+
       formData.append('file', stream, {
         filename: fileName,
         contentType: options?.mimeType || 'application/octet-stream'
@@ -578,6 +593,57 @@ export class SynologyProvider extends BaseCloudProvider implements ICloudProvide
     }
   }
 
+  /**
+   * Get the MD5 of a file, computed on the NAS
+   */
+  public async getFileHash(path: string, algorithm: ChecksumAlgorithm): Promise<string | undefined> {
+    this.ensureAuthenticated();
+    this.validatePath(path);
+
+    if (algorithm !== 'md5') {
+      return undefined;
+    }
+
+    try {
+      const response = await this.apiCall('SYNO.FileStation.MD5', 'start', 2, {
+        file_path: this.normalizePath(path)
+      });
+
+      const taskId = response.data.taskid;
+
+      // Hashing reads the whole file, so allow roughly 10 minutes
+      let md5: string | undefined;
+      let attempts = 0;
+      const maxAttempts = 600;
+
+      do {
+        await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
+
+        const statusResponse = await this.apiCall('SYNO.FileStation.MD5', 'status', 2, {
+          taskid: taskId
+        });
+
+        if (statusResponse.data.finished) {
+          md5 = statusResponse.data.md5;
+          break;
+        }
+
+        attempts++;
+      } while (attempts < maxAttempts);
+
+      if (!md5) {
+        // Clean up the unfinished task
+        await this.apiCall('SYNO.FileStation.MD5', 'stop', 2, { taskid: taskId }).catch(() => undefined);
+        throw new Error('MD5 calculation timeout');
+      }
+
+      return md5.toLowerCase();
+    } catch (error) {
+      logger.error(`Failed to get MD5 of Synology file ${path}:`, error);
+      throw this.handleError(error, 'getFileHash');
+    }
+  }
+
   /**
    * Get download URL
    */
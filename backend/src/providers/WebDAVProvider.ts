@@ -4,10 +4,12 @@ import { join } from 'path';
 import { createClient, WebDAVClient } from 'webdav';
 import { 
   BaseCloudProvider, 
+  ChangeFeedOptions,
   ICloudProvider, 
   UploadOptions 
 } from './ICloudProvider';
 import {
+  FileChangeSet,
   FileItem,
   FileFilter,
   CloudCredentials,
@@ -15,7 +17,8 @@ import {
   CloudProviderCapabilities,
   CloudQuota,
   TransferProgress,
-  BasicAuthCredentials
+  BasicAuthCredentials,
+  ByteRange
 } from '../types';
 import {
   AuthenticationError,
@@ -27,6 +30,7 @@ import {
   UnsupportedOperationError,
   APIError
 } from './errors';
+import { ChangeFeed } from '../utils/changeFeed';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -59,6 +63,11 @@ export class WebDAVProvider extends BaseCloudProvider implements ICloudProvider
     supportsCopy: true,
     supportsResume: false, // Most WebDAV servers don't support resumable uploads
     supportsChunkedUpload: false,
+    supportsRangeDownload: true,
+    supportsModifiedTime: true, // PROPPATCH, or X-OC-Mtime on upload
+    supportsChangeFeed: false, // getChanges compares listings
+    checksumAlgorithm: undefined, // ETags are not content hashes
+    supportedHashes: [],
     maxFileSize: undefined, // Depends on server configuration
     supportedMimeTypes: undefined // WebDAV supports all file types
   };
@@ -263,13 +272,15 @@ export class WebDAVProvider extends BaseCloudProvider implements ICloudProvider
   /**
    * Download a file
    */
-  public async downloadFile(path: string): Promise<Readable> {
+  public async downloadFile(path: string, range?: ByteRange): Promise<Readable> {
     this.ensureAuthenticated();
     this.validatePath(path);
     
     try {
       const normalizedPath = this.normalizePath(path);
-      const stream = this.client!.createReadStream(normalizedPath);
+
+      // The client fails the stream when the server ignores the range
+      const stream = this.client!.createReadStream(normalizedPath, range ? { range } : undefined);
       
       return stream;
     } catch (error) {
@@ -306,8 +317,12 @@ export class WebDAVProvider extends BaseCloudProvider implements ICloudProvider
       }
 
       // Create write stream and pipe
+      // Nextcloud and ownCloud take the modification time as an upload header
       const writeStream = this.client!.createWriteStream(normalizedPath, {
-        overwrite: options?.overwrite || false
+        overwrite: options?.overwrite || false,
+        ...(options?.preserveTimestamps && options.modifiedAt && {
+          headers: { 'X-OC-Mtime': String(Math.floor(options.modifiedAt.getTime() / 1000)) }
+        })
       });
 
       // Handle upload progress if callback provided
@@ -445,6 +460,63 @@ export class WebDAVProvider extends BaseCloudProvider implements ICloudProvider
     );
   }
 
+  /**
+   * Set modification time with PROPPATCH. Many servers treat getlastmodified
+   * as protected, in which case this throws UnsupportedOperationError.
+   */
+  public async setModifiedTime(path: string, modifiedAt: Date): Promise<FileItem> {
+    this.ensureAuthenticated();
+    this.validatePath(path);
+
+    try {
+      const normalizedPath = this.normalizePath(path);
+      const body = '<?xml version="1.0" encoding="utf-8"?>' +
+        '<d:propertyupdate xmlns:d="DAV:"><d:set><d:prop>' +
+        `<d:getlastmodified>${modifiedAt.toUTCString()}</d:getlastmodified>` +
+        '</d:prop></d:set></d:propertyupdate>';
+
+      const response = await this.client!.customRequest(normalizedPath, {
+        method: 'PROPPATCH',
+        headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+        data: body
+      });
+
+      // PROPPATCH answers 207 even when the property was refused
+      const result = await response.text();
+      if (/HTTP\/1\.[01] [45]\d\d/.test(result)) {
+        throw new UnsupportedOperationError(
+          'WebDAV server does not allow setting modification times',
+          this.providerType,
+          'setModifiedTime'
+        );
+      }
+
+      return await this.getFileInfo(normalizedPath);
+    } catch (error) {
+      if (error instanceof UnsupportedOperationError) {
+        throw error;
+      }
+
+      logger.error(`Failed to set WebDAV modification time for ${path}:`, error);
+      throw this.handleError(error, 'setModifiedTime');
+    }
+  }
+
+  /**
+   * WebDAV has no change feed, so changes come from comparing listings
+   */
+  public async getChanges(path: string, cursor?: string, options?: ChangeFeedOptions): Promise<FileChangeSet> {
+    this.ensureAuthenticated();
+    this.validatePath(path);
+
+    try {
+      return await ChangeFeed.fromSnapshot(this, this.normalizePath(path), cursor, options);
+    } catch (error) {
+      logger.error(`Failed to get WebDAV changes below ${path}:`, error);
+      throw this.handleError(error, 'getChanges');
+    }
+  }
+
   // Private helper methods
 
   private async listFilesRecursive(path: string, maxDepth: number = 3, currentDepth: number = 0): Promise<FileItem[]> {
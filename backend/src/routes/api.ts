@@ -47,11 +47,15 @@ export const transferRoutes = Router();
 transferRoutes.get('/stats', authenticateToken, TransferController.getTransferStats);
 transferRoutes.get('/', authenticateToken, TransferController.listTransfers);
 transferRoutes.post('/', authenticateToken, TransferController.createTransfer);
+transferRoutes.post('/estimate', authenticateToken, TransferController.estimateTransfer);
+transferRoutes.post('/validate', authenticateToken, TransferController.validateTransfer);
 transferRoutes.get('/:id', authenticateToken, TransferController.getTransfer);
 transferRoutes.post('/:id/start', authenticateToken, TransferController.startTransfer);
 transferRoutes.post('/:id/pause', authenticateToken, TransferController.pauseTransfer);
 transferRoutes.post('/:id/resume', authenticateToken, TransferController.resumeTransfer);
 transferRoutes.post('/:id/cancel', authenticateToken, TransferController.cancelTransfer);
+transferRoutes.post('/:id/retry', authenticateToken, TransferController.retryTransfer);
+transferRoutes.get('/:id/files', authenticateToken, TransferController.getTransferFiles);
 transferRoutes.get('/:id/progress', authenticateToken, TransferController.getTransferProgress);
 transferRoutes.delete('/:id', authenticateToken, TransferController.deleteTransfer);
 
@@ -59,15 +63,20 @@ transferRoutes.delete('/:id', authenticateToken, TransferController.deleteTransf
 export const syncRoutes = Router();
 
 syncRoutes.get('/stats', authenticateToken, SyncController.getSyncStats);
+syncRoutes.get('/schedule', authenticateToken, SyncController.getSyncSchedule);
 syncRoutes.post('/validate-cron', authenticateToken, SyncController.validateCron);
 syncRoutes.get('/', authenticateToken, SyncController.listSyncs);
 syncRoutes.post('/', authenticateToken, SyncController.createSync);
 syncRoutes.get('/:id', authenticateToken, SyncController.getSync);
 syncRoutes.put('/:id', authenticateToken, SyncController.updateSync);
 syncRoutes.post('/:id/start', authenticateToken, SyncController.startSync);
+syncRoutes.post('/:id/preview', authenticateToken, SyncController.previewSync);
+syncRoutes.post('/:id/approve-deletions', authenticateToken, SyncController.approveDeletions);
 syncRoutes.post('/:id/stop', authenticateToken, SyncController.stopSync);
 syncRoutes.post('/:id/toggle', authenticateToken, SyncController.toggleSync);
 syncRoutes.get('/:id/history', authenticateToken, SyncController.getSyncHistory);
+syncRoutes.get('/:id/history/:runId/files', authenticateToken, SyncController.getSyncRunFiles);
+syncRoutes.get('/:id/conflicts', authenticateToken, SyncController.getSyncConflicts);
 syncRoutes.delete('/:id', authenticateToken, SyncController.deleteSync);
 
 // System/Admin routes (optional)
@@ -0,0 +1,131 @@
+import { TransferJob, User, BandwidthScheduleRule } from '../types';
+import { TokenBucket, BandwidthSchedule } from '../utils/tokenBucket';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.errors({ stack: true }),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.simple()
+    })
+  ]
+});
+
+type SubscriptionTier = User['subscriptionTier'];
+
+/**
+ * Throttles one transfer against its own, its user's and the server's
+ * buckets. Bytes wait on each in turn, so the tightest limit wins.
+ */
+export class BandwidthLimiter {
+  private released = false;
+
+  constructor(
+    private readonly buckets: TokenBucket[],
+    private readonly onRelease: () => void = () => undefined
+  ) {}
+
+  public async consume(bytes: number): Promise<void> {
+    for (const bucket of this.buckets) {
+      await bucket.consume(bytes);
+    }
+  }
+
+  /**
+   * Hand the shared buckets back once the transfer is over. Safe to call
+   * more than once.
+   */
+  public release(): void {
+    if (this.released) return;
+
+    this.released = true;
+    this.onRelease();
+  }
+}
+
+export class BandwidthManager {
+  private readonly globalBucket: TokenBucket;
+  private userBuckets = new Map<string, TokenBucket>();
+  private userTiers = new Map<string, SubscriptionTier>();
+  private userLimiters = new Map<string, number>();
+  private readonly globalLimit: number;
+  private readonly globalSchedule?: BandwidthScheduleRule[];
+  private readonly tierLimits: Record<SubscriptionTier, number>;
+
+  constructor() {
+    this.globalLimit = parseInt(process.env.BANDWIDTH_LIMIT_GLOBAL || '0');
+    this.globalSchedule = this.parseSchedule(process.env.BANDWIDTH_SCHEDULE_GLOBAL);
+    this.tierLimits = {
+      free: parseInt(process.env.BANDWIDTH_LIMIT_FREE || '0'),
+      pro: parseInt(process.env.BANDWIDTH_LIMIT_PRO || '0'),
+      enterprise: parseInt(process.env.BANDWIDTH_LIMIT_ENTERPRISE || '0')
+    };
+
+    this.globalBucket = new TokenBucket(() =>
+      BandwidthSchedule.resolve(this.globalSchedule) ?? this.globalLimit
+    );
+  }
+
+  /**
+   * Create the limiter for a transfer. All transfers of a user share one
+   * bucket sized by their subscription tier, kept until the last of them
+   * releases its limiter.
+   */
+  public createLimiter(job: TransferJob, subscriptionTier: SubscriptionTier): BandwidthLimiter {
+    const jobBucket = new TokenBucket(() =>
+      BandwidthSchedule.resolve(job.options?.bandwidthSchedule) ?? job.options?.bandwidthLimit ?? 0
+    );
+
+    const userBucket = this.getUserBucket(job.userId, subscriptionTier);
+    this.userLimiters.set(job.userId, (this.userLimiters.get(job.userId) || 0) + 1);
+
+    return new BandwidthLimiter(
+      [jobBucket, userBucket, this.globalBucket],
+      () => this.releaseUser(job.userId)
+    );
+  }
+
+  private releaseUser(userId: string): void {
+    const remaining = (this.userLimiters.get(userId) || 1) - 1;
+    if (remaining > 0) {
+      this.userLimiters.set(userId, remaining);
+      return;
+    }
+
+    this.userLimiters.delete(userId);
+    this.userBuckets.delete(userId);
+    this.userTiers.delete(userId);
+  }
+
+  private getUserBucket(userId: string, subscriptionTier: SubscriptionTier): TokenBucket {
+    // Tier changes apply to the existing bucket on its next refill
+    this.userTiers.set(userId, subscriptionTier);
+
+    let bucket = this.userBuckets.get(userId);
+    if (!bucket) {
+      bucket = new TokenBucket(() => this.tierLimits[this.userTiers.get(userId) || 'free'] || 0);
+      this.userBuckets.set(userId, bucket);
+    }
+
+    return bucket;
+  }
+
+  private parseSchedule(value?: string): BandwidthScheduleRule[] | undefined {
+    if (!value) return undefined;
+
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      logger.error('Invalid BANDWIDTH_SCHEDULE_GLOBAL, ignoring it:', error);
+      return undefined;
+    }
+  }
+}
+
+// Export singleton instance
+export const bandwidthManager = new BandwidthManager();
@@ -3,6 +3,8 @@ import { EventEmitter } from 'events';
 import { redis } from '../database/connection';
 import { transferEngine } from './TransferEngine';
 import { syncEngine } from './SyncEngine';
+import { SyncTrigger } from '../types';
+import { JobLease } from '../utils/jobLease';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -19,6 +21,9 @@ const logger = winston.createLogger({
   ]
 });
 
+// How long a watcher's run waits when the same job is still running, in ms
+const WATCH_REQUEUE_DELAY = 30 * 1000;
+
 export interface QueueJobData {
   type: string;
   payload: any;
@@ -36,6 +41,8 @@ export interface TransferJobData {
 export interface SyncJobData {
   syncJobId: string;
   userId: string;
+  trigger?: SyncTrigger; // recorded on the run, 'api' when unset
+  approvedRunId?: string; // blocked run whose deletions were approved
 }
 
 export interface CleanupJobData {
@@ -260,6 +267,44 @@ export class QueueManager extends EventEmitter {
     }, options);
   }
 
+  /**
+   * Re-queue jobs left 'running' by an instance that died, once its lease
+   * has expired. Runs at startup and then on a schedule, which also picks up
+   * this process's own jobs after a restart within the lease TTL. Jobs that
+   * can't be queued are marked failed so they don't look active forever.
+   */
+  public async recoverInterruptedJobs(): Promise<void> {
+    const transfers = await transferEngine.reclaimInterruptedTransfers();
+
+    for (const job of transfers) {
+      try {
+        await this.addTransferJob({ transferJobId: job.id, userId: job.userId });
+      } catch (error) {
+        logger.error(`Failed to re-queue interrupted transfer ${job.id}:`, error);
+        await transferEngine.completeTransfer(
+          job.id,
+          false,
+          'Interrupted by a server restart and could not be re-queued'
+        );
+      }
+    }
+
+    const syncs = await syncEngine.reclaimInterruptedSyncs();
+
+    for (const job of syncs) {
+      try {
+        await this.addSyncJob({ syncJobId: job.id, userId: job.userId });
+      } catch (error) {
+        logger.error(`Failed to re-queue interrupted sync ${job.id}:`, error);
+        await syncEngine.completeSync(job.id, 'failed');
+      }
+    }
+
+    if (transfers.length > 0 || syncs.length > 0) {
+      logger.info(`Recovered ${transfers.length} interrupted transfers and ${syncs.length} interrupted syncs`);
+    }
+  }
+
   /**
    * Get queue statistics
    */
@@ -423,8 +468,20 @@ export class QueueManager extends EventEmitter {
       
       await job.progress(10);
 
+      // The run in progress may have listed the files before the changes a
+      // watcher noticed, so try again once it is over rather than overlap it
+      if (syncData.trigger === 'watch' && syncEngine.isSyncRunning(syncData.syncJobId)) {
+        await this.addSyncJob(syncData, {
+          jobId: `watch-${syncData.syncJobId}-${Date.now()}`,
+          delay: WATCH_REQUEUE_DELAY,
+          removeOnComplete: true,
+          removeOnFail: true
+        });
+        return { success: true, syncJobId: syncData.syncJobId, requeued: true };
+      }
+
       // Start the sync using sync engine
-      await syncEngine.startSync(syncData.syncJobId);
+      await syncEngine.startSync(syncData.syncJobId, syncData.trigger, syncData.approvedRunId);
 
       await job.progress(100);
       
@@ -570,6 +627,11 @@ export class QueueScheduler {
       });
     }, 6 * 60 * 60 * 1000); // Every 6 hours
 
+    // Leases of instances that died have run out by the next pass
+    this.scheduleRecurringJob('recover-interrupted', () => {
+      return this.queueManager.recoverInterruptedJobs();
+    }, JobLease.TTL_SECONDS * 2 * 1000);
+
     logger.info('Queue scheduler initialized with recurring jobs');
   }
 
@@ -1,10 +1,43 @@
 import { v4 as uuidv4 } from 'uuid';
 import { EventEmitter } from 'events';
+import { posix } from 'path';
 import * as cron from 'node-cron';
-import { SyncJob, FileItem, SyncOptions, TransferProgress } from '../types';
+import {
+  SyncJob,
+  FileItem,
+  FileTreeEntry,
+  SyncBaselineEntry,
+  SyncChangeCursor,
+  SyncConflict,
+  SyncOptions,
+  SyncPreview,
+  SyncPreviewItem,
+  SyncRun,
+  SyncSchedule,
+  SyncScheduleJob,
+  SyncTrigger,
+  SyncPendingDeletion,
+  SyncCompareMode,
+  SyncFileState,
+  ChecksumAlgorithm,
+  FileTransferLog
+} from '../types';
 import { query } from '../database/connection';
 import { cloudProviderFactory } from '../providers/CloudProviderFactory';
 import { ICloudProvider } from '../providers/ICloudProvider';
+import { FileTreeWalker, FileTreeWalkOptions } from '../utils/fileTree';
+import { ChangeFeed } from '../utils/changeFeed';
+import { CronSchedule } from '../utils/cronSchedule';
+import { ScheduleOverlap, ScheduledRun } from '../utils/scheduleOverlap';
+import { JobLease, JobLeaseError } from '../utils/jobLease';
+import { ModifiedTime } from '../utils/modifiedTime';
+import { SyncBaseline, SyncPathDiff } from '../utils/syncBaseline';
+import { ConflictName } from '../utils/conflictName';
+import { FileExistsError } from '../providers/errors';
+import { DeletionSafeguard } from '../utils/deletionSafeguard';
+import { BackupVersion } from '../utils/backupVersion';
+import { ChecksumService } from '../utils/checksum';
+import { MoveCandidate, MoveDetector, MoveMatchOptions } from '../utils/moveDetection';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -38,7 +71,7 @@ export interface SyncJobUpdate {
   isActive?: boolean;
   lastSync?: Date;
   nextSync?: Date;
-  lastSyncStatus?: 'pending' | 'running' | 'completed' | 'failed';
+  lastSyncStatus?: SyncJob['lastSyncStatus'];
   scheduleCron?: string;
   filters?: any;
   options?: SyncOptions;
@@ -46,17 +79,62 @@ export interface SyncJobUpdate {
 }
 
 export interface SyncOperation {
-  type: 'upload' | 'download' | 'delete';
+  type: 'upload' | 'download' | 'delete' | 'create_folder' | 'move' | 'conflict';
+  relativePath: string; // path below the sync roots, '/'-separated
   sourcePath: string;
   destinationPath: string;
   file: FileItem;
   direction: 'source_to_dest' | 'dest_to_source';
+  overwrite?: boolean; // the target is known to be unchanged since the last sync
+  targetExists?: boolean; // copies: the target is already there and gets replaced
+  backedUp?: boolean; // the target's current version was already kept elsewhere
+  destinationFile?: FileItem; // conflicts: the destination's version, file holds the source's
+  movedFrom?: { relativePath: string; path: string }; // moves: where the target is now
+  reason?: string; // why the paths conflict
 }
 
+// Entries of one side of a sync, keyed by relative path
+type SyncTree = Map<string, FileTreeEntry>;
+
+// Operations a run will execute, with the trees they were worked out from
+interface SyncPlan {
+  operations: SyncOperation[];
+  settled: SyncPathDiff[]; // two-way paths that already agree
+  sourceTree: SyncTree;
+  destTree: SyncTree;
+}
+
+// What a run did so far
+type SyncRunStats = Pick<
+  SyncRun,
+  'filesProcessed' | 'filesAdded' | 'filesUpdated' | 'filesDeleted' | 'filesFailed' | 'conflicts' | 'bytesTransferred'
+>;
+
+// Statuses a job can be left in once its run is over
+type SyncOutcome = Exclude<SyncJob['lastSyncStatus'], 'pending' | 'running'>;
+
+// Columns the run history may be sorted by
+const SYNC_RUN_SORT_COLUMNS: Record<string, string> = {
+  startedAt: 'started_at',
+  completedAt: 'completed_at',
+  status: 'status',
+  trigger: 'triggered_by',
+  duration: 'completed_at - started_at',
+  filesProcessed: 'files_processed',
+  filesFailed: 'files_failed',
+  bytesTransferred: 'bytes_transferred'
+};
+
+// Schedule calendar: runs listed per job, and the duration assumed for jobs
+// that haven't finished a run yet, in seconds
+const MAX_SCHEDULED_RUNS = 500;
+const DEFAULT_RUN_ESTIMATE = 300;
+
 export class SyncEngine extends EventEmitter {
   private activeSyncs = new Map<string, SyncExecution>();
   private scheduledJobs = new Map<string, cron.ScheduledTask>();
   private readonly maxConcurrentSyncs: number;
+  private heartbeat?: NodeJS.Timeout;
 
   constructor() {
     super();
@@ -133,9 +211,10 @@ export class SyncEngine extends EventEmitter {
   }
 
   /**
-   * Start a sync job manually
+   * Start a sync job, recording the run under the given trigger. Deletions
+   * approved on a blocked run are let through the mass-deletion safeguard.
    */
-  public async startSync(jobId: string): Promise<void> {
+  public async startSync(jobId: string, trigger: SyncTrigger = 'api', approvedRunId?: string): Promise<void> {
     try {
       // Check if sync is already running
       if (this.activeSyncs.has(jobId)) {
@@ -157,15 +236,30 @@ export class SyncEngine extends EventEmitter {
         throw new Error('Sync job is not active');
       }
 
-      // Update status to running
-      await this.updateSyncJob(jobId, { 
-        lastSyncStatus: 'running',
-        lastSync: new Date()
-      });
+      // Claim the job so no other instance runs it at the same time
+      await JobLease.acquire('sync_jobs', jobId);
+      this.startHeartbeat();
+
+      let execution: SyncExecution;
+      try {
+        // Update status to running
+        await this.updateSyncJob(jobId, { 
+          lastSyncStatus: 'running',
+          lastSync: new Date()
+        });
 
-      // Create sync execution
-      const execution = new SyncExecution(job, this);
-      this.activeSyncs.set(jobId, execution);
+        // Create sync execution
+        const approvedRun = approvedRunId ? await this.getSyncRun(approvedRunId) : null;
+        const approvedDeletions = approvedRun?.deletionsApprovedAt ? approvedRun.pendingDeletions || [] : [];
+
+        const run = await this.createSyncRun(jobId, trigger);
+        execution = new SyncExecution(job, this, run.id, approvedDeletions);
+        this.activeSyncs.set(jobId, execution);
+      } catch (error) {
+        // A sync that never started doesn't keep its lease
+        await JobLease.release('sync_jobs', jobId).catch(() => undefined);
+        throw error;
+      }
 
       // Start the sync
       execution.start();
@@ -174,6 +268,12 @@ export class SyncEngine extends EventEmitter {
 
     } catch (error) {
       logger.error(`Failed to start sync ${jobId}:`, error);
+
+      // The job belongs to another instance, leave it alone
+      if (error instanceof JobLeaseError) {
+        throw error;
+      }
+
       await this.updateSyncJob(jobId, {
         lastSyncStatus: 'failed'
       });
@@ -181,6 +281,52 @@ export class SyncEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Create and authenticate a provider from its stored configuration
+   */
+  public async connectProvider(cloudProviderId: string): Promise<{ provider: ICloudProvider; name: string }> {
+    const result = await query(
+      'SELECT * FROM cloud_providers WHERE id = $1',
+      [cloudProviderId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Cloud provider configuration not found');
+    }
+
+    const row = result.rows[0];
+    const config = row.config ? JSON.parse(row.config) : {};
+
+    const provider = await cloudProviderFactory.createProvider(row.provider_type, config);
+    await provider.authenticate(JSON.parse(row.credentials), config);
+
+    return { provider, name: row.alias || provider.displayName };
+  }
+
+  /**
+   * Whether a run of the job is in progress on this instance
+   */
+  public isSyncRunning(jobId: string): boolean {
+    return this.activeSyncs.has(jobId);
+  }
+
+  /**
+   * Work out what a sync job would do, without running it
+   */
+  public async previewSync(jobId: string): Promise<SyncPreview> {
+    try {
+      const job = await this.getSyncJob(jobId);
+      if (!job) {
+        throw new Error('Sync job not found');
+      }
+
+      return await new SyncExecution(job, this).preview();
+    } catch (error) {
+      logger.error(`Failed to preview sync ${jobId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Stop a sync job
    */
@@ -190,6 +336,7 @@ export class SyncEngine extends EventEmitter {
       if (execution) {
         await execution.stop();
         this.activeSyncs.delete(jobId);
+        await JobLease.release('sync_jobs', jobId);
       }
 
       logger.info(`Sync stopped: ${jobId}`);
@@ -319,7 +466,7 @@ export class SyncEngine extends EventEmitter {
         [...params, limit, offset]
       );
 
-      const jobs = jobsResult.rows.map(row => this.mapDbRowToSyncJob(row));
+      const jobs = jobsResult.rows.map((row: any) => this.mapDbRowToSyncJob(row));
 
       return { jobs, total };
     } catch (error) {
@@ -328,6 +475,105 @@ export class SyncEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Active jobs that sync shortly after changes are noticed
+   */
+  public async getContinuousSyncJobs(): Promise<SyncJob[]> {
+    const result = await query(
+      `SELECT * FROM sync_jobs WHERE is_active = true AND options->>'continuous' = 'true'`
+    );
+
+    return result.rows.map((row: any) => this.mapDbRowToSyncJob(row));
+  }
+
+  /**
+   * Run times of a user's active scheduled jobs over the next days, and the
+   * runs expected to use the same cloud account at the same time. How long
+   * a run takes is estimated from the job's recent runs.
+   */
+  public async getSyncSchedule(userId: string, days: number): Promise<SyncSchedule> {
+    const from = new Date();
+    const to = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const jobsResult = await query(
+      `SELECT j.*, s.alias AS source_alias, d.alias AS destination_alias
+       FROM sync_jobs j
+       JOIN cloud_providers s ON s.id = j.source_cloud_id
+       JOIN cloud_providers d ON d.id = j.destination_cloud_id
+       WHERE j.user_id = $1 AND j.is_active = true AND j.schedule_cron IS NOT NULL
+       ORDER BY j.created_at`,
+      [userId]
+    );
+
+    const jobIds = jobsResult.rows.map((row: any) => row.id);
+    const durationsResult = await query(
+      `SELECT sync_job_id, AVG(EXTRACT(EPOCH FROM (completed_at - started_at))) AS duration
+       FROM (
+         SELECT sync_job_id, started_at, completed_at,
+                ROW_NUMBER() OVER (PARTITION BY sync_job_id ORDER BY started_at DESC) AS recent
+         FROM sync_runs
+         WHERE sync_job_id = ANY($1) AND status IN ('completed', 'partial') AND completed_at IS NOT NULL
+       ) runs
+       WHERE recent <= 10
+       GROUP BY sync_job_id`,
+      [jobIds]
+    );
+    const durations = new Map<string, number>(
+      durationsResult.rows.map((row: any) => [row.sync_job_id, Math.ceil(parseFloat(row.duration))])
+    );
+
+    const cloudAliases = new Map<string, string>();
+    const jobs: SyncScheduleJob[] = [];
+    const scheduledRuns: ScheduledRun[] = [];
+
+    for (const row of jobsResult.rows) {
+      const job = this.mapDbRowToSyncJob(row);
+      cloudAliases.set(job.sourceCloudId, row.source_alias);
+      cloudAliases.set(job.destinationCloudId, row.destination_alias);
+
+      let runs: Date[] = [];
+      try {
+        runs = CronSchedule.between(job.scheduleCron!, from, to, MAX_SCHEDULED_RUNS + 1);
+      } catch (error) {
+        logger.warn(`Failed to expand schedule of sync job ${job.id}:`, error);
+      }
+
+      const estimatedDuration = durations.get(job.id) ?? DEFAULT_RUN_ESTIMATE;
+      const listed = runs.slice(0, MAX_SCHEDULED_RUNS);
+
+      jobs.push({
+        syncJobId: job.id,
+        alias: `${row.source_alias} → ${row.destination_alias}`,
+        schedule: job.scheduleCron!,
+        isActive: job.isActive,
+        nextRun: runs[0],
+        lastRun: job.lastSync,
+        estimatedDuration,
+        runs: listed,
+        truncated: runs.length > MAX_SCHEDULED_RUNS
+      });
+
+      for (const startsAt of listed) {
+        scheduledRuns.push({
+          key: job.id,
+          resources: [job.sourceCloudId, job.destinationCloudId],
+          startsAt,
+          endsAt: new Date(startsAt.getTime() + estimatedDuration * 1000)
+        });
+      }
+    }
+
+    const overlaps = ScheduleOverlap.find(scheduledRuns).map(overlap => ({
+      cloudProviderId: overlap.resource,
+      cloudAlias: cloudAliases.get(overlap.resource) || overlap.resource,
+      start: overlap.start,
+      end: overlap.end,
+      runs: overlap.runs.map(run => ({ syncJobId: run.key, startsAt: run.startsAt, endsAt: run.endsAt }))
+    }));
+
+    return { from, to, jobs, overlaps };
+  }
+
   /**
    * Delete sync job
    */
@@ -348,6 +594,8 @@ export class SyncEngine extends EventEmitter {
 
       logger.info(`Sync job deleted: ${jobId}`);
 
+      this.emit('syncJobDeleted', jobId);
+
     } catch (error) {
       logger.error(`Failed to delete sync job ${jobId}:`, error);
       throw error;
@@ -355,26 +603,28 @@ export class SyncEngine extends EventEmitter {
   }
 
   /**
-   * Handle sync completion
+   * Handle sync completion with the status its run ended in. Blocked runs
+   * wait for their deletions to be approved.
    */
-  public async completeSync(jobId: string, success: boolean): Promise<void> {
+  public async completeSync(jobId: string, status: SyncOutcome): Promise<void> {
     try {
       const updates: SyncJobUpdate = {
-        lastSyncStatus: success ? 'completed' : 'failed'
+        lastSyncStatus: status
       };
 
       // Calculate next sync time if scheduled
       const job = await this.getSyncJob(jobId);
       if (job?.scheduleCron) {
-        updates.nextSync = this.calculateNextSync(job.scheduleCron);
+        updates.nextSync = this.calculateNextSync(job.scheduleCron) || undefined;
       }
 
       await this.updateSyncJob(jobId, updates);
 
       // Remove from active syncs
       this.activeSyncs.delete(jobId);
+      await JobLease.release('sync_jobs', jobId);
 
-      logger.info(`Sync ${success ? 'completed' : 'failed'}: ${jobId}`);
+      logger.info(`Sync ${status}: ${jobId}`);
 
     } catch (error) {
       logger.error(`Failed to complete sync ${jobId}:`, error);
@@ -382,6 +632,426 @@ export class SyncEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Reset syncs left 'running' by an instance that died so they can be
+   * queued again. Syncs with a live lease belong to another instance.
+   */
+  public async reclaimInterruptedSyncs(): Promise<SyncJob[]> {
+    try {
+      const result = await query(
+        `UPDATE sync_jobs
+         SET last_sync_status = 'pending', lease_owner = NULL, lease_expires_at = NULL, updated_at = NOW()
+         WHERE last_sync_status = 'running' AND ${JobLease.UNLEASED_CONDITION}
+         RETURNING *`
+      );
+
+      const jobs = result.rows.map((row: any) => this.mapDbRowToSyncJob(row));
+
+      // Their runs ended with the instance; the re-queued syncs start new ones
+      await query(
+        `UPDATE sync_runs
+         SET status = 'failed', error_message = 'Interrupted by a server restart', completed_at = NOW()
+         WHERE status = 'running' AND sync_job_id = ANY($1)`,
+        [jobs.map((job: SyncJob) => job.id)]
+      );
+
+      for (const job of jobs) {
+        logger.warn(`Reclaimed interrupted sync: ${job.id}`);
+      }
+
+      return jobs;
+    } catch (error) {
+      logger.error('Failed to reclaim interrupted syncs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the start of a sync run
+   */
+  public async createSyncRun(jobId: string, trigger: SyncTrigger): Promise<SyncRun> {
+    const result = await query(
+      'INSERT INTO sync_runs (sync_job_id, triggered_by) VALUES ($1, $2) RETURNING *',
+      [jobId, trigger]
+    );
+
+    return this.mapDbRowToSyncRun(result.rows[0]);
+  }
+
+  /**
+   * Record how a sync run ended. Failures are logged, not thrown, so the job
+   * itself can still be completed.
+   */
+  public async finishSyncRun(
+    runId: string,
+    status: SyncRun['status'],
+    stats: SyncRunStats,
+    errorMessage?: string,
+    pendingDeletions?: SyncPendingDeletion[]
+  ): Promise<void> {
+    try {
+      await query(
+        `UPDATE sync_runs
+         SET status = $2, files_processed = $3, files_added = $4, files_updated = $5, files_deleted = $6,
+             files_failed = $7, conflicts = $8, bytes_transferred = $9, error_message = $10,
+             pending_deletions = $11, completed_at = NOW()
+         WHERE id = $1`,
+        [
+          runId,
+          status,
+          stats.filesProcessed,
+          stats.filesAdded,
+          stats.filesUpdated,
+          stats.filesDeleted,
+          stats.filesFailed,
+          stats.conflicts,
+          stats.bytesTransferred,
+          errorMessage || null,
+          pendingDeletions ? JSON.stringify(pendingDeletions) : null
+        ]
+      );
+    } catch (error) {
+      logger.error(`Failed to finish sync run ${runId}:`, error);
+    }
+  }
+
+  /**
+   * End a run stopped by the mass-deletion safeguard and tell its owner
+   */
+  public async blockSyncRun(
+    job: SyncJob,
+    runId: string,
+    reason: string,
+    pendingDeletions: SyncPendingDeletion[]
+  ): Promise<void> {
+    const stats: SyncRunStats = {
+      filesProcessed: 0,
+      filesAdded: 0,
+      filesUpdated: 0,
+      filesDeleted: 0,
+      filesFailed: 0,
+      conflicts: 0,
+      bytesTransferred: 0
+    };
+
+    await this.finishSyncRun(runId, 'blocked', stats, reason, pendingDeletions);
+
+    logger.warn(`Sync ${job.id} is waiting for deletions to be approved: ${reason}`);
+    this.emit('syncDeletionsBlocked', { job, runId, reason, pendingDeletions });
+  }
+
+  /**
+   * Approve the deletions of the job's latest run, if the safeguard stopped
+   * it. Returns the run to pass to startSync.
+   */
+  public async approvePendingDeletions(jobId: string): Promise<SyncRun> {
+    const result = await query(
+      `UPDATE sync_runs SET deletions_approved_at = NOW()
+       WHERE id = (SELECT id FROM sync_runs WHERE sync_job_id = $1 ORDER BY started_at DESC LIMIT 1)
+         AND status = 'blocked' AND deletions_approved_at IS NULL
+       RETURNING *`,
+      [jobId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('No deletions are waiting for approval');
+    }
+
+    return this.mapDbRowToSyncRun(result.rows[0]);
+  }
+
+  /**
+   * Runs of a sync job, newest first unless sorted otherwise
+   */
+  public async getSyncRuns(
+    jobId: string,
+    options: { page?: number; limit?: number; sortBy?: string; sortOrder?: 'asc' | 'desc' } = {}
+  ): Promise<{ runs: SyncRun[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    const sortColumn = SYNC_RUN_SORT_COLUMNS[options.sortBy || 'startedAt'] || SYNC_RUN_SORT_COLUMNS.startedAt;
+    const sortOrder = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const countResult = await query(
+      'SELECT COUNT(*) as total FROM sync_runs WHERE sync_job_id = $1',
+      [jobId]
+    );
+
+    const result = await query(
+      `SELECT * FROM sync_runs WHERE sync_job_id = $1
+       ORDER BY ${sortColumn} ${sortOrder} NULLS LAST, started_at DESC
+       LIMIT $2 OFFSET $3`,
+      [jobId, limit, (page - 1) * limit]
+    );
+
+    return {
+      runs: result.rows.map((row: any) => this.mapDbRowToSyncRun(row)),
+      total: parseInt(countResult.rows[0].total)
+    };
+  }
+
+  public async getSyncRun(runId: string): Promise<SyncRun | null> {
+    const result = await query('SELECT * FROM sync_runs WHERE id = $1', [runId]);
+    return result.rows.length > 0 ? this.mapDbRowToSyncRun(result.rows[0]) : null;
+  }
+
+  /**
+   * Log a file a sync run handled. Failures are logged, not thrown.
+   */
+  public async logSyncFile(
+    jobId: string,
+    runId: string,
+    entry: Pick<FileTransferLog, 'filePath' | 'fileSize' | 'status' | 'errorMessage'>
+  ): Promise<void> {
+    try {
+      await query(
+        `INSERT INTO file_transfer_logs (
+          sync_job_id, sync_run_id, file_path, file_size, status, error_message, transferred_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          jobId,
+          runId,
+          entry.filePath,
+          entry.fileSize ?? null,
+          entry.status,
+          entry.errorMessage || null,
+          entry.status === 'completed' ? new Date() : null
+        ]
+      );
+    } catch (error) {
+      logger.error(`Failed to log sync file ${entry.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Files a sync run handled, in the order it handled them
+   */
+  public async getSyncRunFiles(
+    runId: string,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ files: FileTransferLog[]; total: number }> {
+    const countResult = await query(
+      'SELECT COUNT(*) as total FROM file_transfer_logs WHERE sync_run_id = $1',
+      [runId]
+    );
+
+    const result = await query(
+      `SELECT * FROM file_transfer_logs WHERE sync_run_id = $1
+       ORDER BY created_at, id LIMIT $2 OFFSET $3`,
+      [runId, limit, (page - 1) * limit]
+    );
+
+    return {
+      files: result.rows.map((row: any) => this.mapDbRowToFileTransferLog(row)),
+      total: parseInt(countResult.rows[0].total)
+    };
+  }
+
+  /**
+   * Cached hashes of files on a provider that still have the given size and
+   * modification time, keyed by path
+   */
+  public async getCachedFileHashes(
+    providerId: string,
+    algorithm: ChecksumAlgorithm,
+    files: FileItem[]
+  ): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+    const cacheable = files.filter(file => file.modifiedAt);
+    if (cacheable.length === 0) return hashes;
+
+    const result = await query(
+      `SELECT * FROM file_hashes
+       WHERE cloud_provider_id = $1 AND algorithm = $2 AND file_path = ANY($3)`,
+      [providerId, algorithm, cacheable.map(file => file.path)]
+    );
+
+    const byPath = new Map(cacheable.map(file => [file.path, file]));
+
+    for (const row of result.rows) {
+      const file = byPath.get(row.file_path);
+      const sameSize = row.file_size === null ? file?.size === undefined : Number(row.file_size) === file?.size;
+
+      if (file && sameSize && new Date(row.modified_at).getTime() === new Date(file.modifiedAt!).getTime()) {
+        hashes.set(row.file_path, row.checksum);
+      }
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Cache a file's hash for as long as its size and modification time stay
+   * the same. Files without a modification time can't be cached.
+   */
+  public async saveFileHash(
+    providerId: string,
+    file: FileItem,
+    algorithm: ChecksumAlgorithm,
+    checksum: string
+  ): Promise<void> {
+    if (!file.modifiedAt) return;
+
+    try {
+      await query(
+        `INSERT INTO file_hashes (cloud_provider_id, file_path, algorithm, checksum, file_size, modified_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (cloud_provider_id, file_path, algorithm) DO UPDATE SET
+           checksum = EXCLUDED.checksum,
+           file_size = EXCLUDED.file_size,
+           modified_at = EXCLUDED.modified_at,
+           updated_at = NOW()`,
+        [providerId, file.path, algorithm, checksum, file.size ?? null, file.modifiedAt]
+      );
+    } catch (error) {
+      logger.error(`Failed to cache hash of ${file.path}:`, error);
+    }
+  }
+
+  /**
+   * Where one side of a sync job left off in its provider's change feed
+   */
+  public async getSyncChangeCursor(jobId: string, side: SyncChangeCursor['side']): Promise<SyncChangeCursor | undefined> {
+    const result = await query(
+      'SELECT * FROM sync_change_cursors WHERE sync_job_id = $1 AND side = $2',
+      [jobId, side]
+    );
+
+    return result.rows.length > 0 ? this.mapDbRowToSyncChangeCursor(result.rows[0]) : undefined;
+  }
+
+  public async saveSyncChangeCursor(jobId: string, cursor: Omit<SyncChangeCursor, 'updatedAt'>): Promise<void> {
+    await query(
+      `INSERT INTO sync_change_cursors (sync_job_id, side, cloud_provider_id, root_path, cursor, files)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (sync_job_id, side) DO UPDATE SET
+         cloud_provider_id = EXCLUDED.cloud_provider_id,
+         root_path = EXCLUDED.root_path,
+         cursor = EXCLUDED.cursor,
+         files = EXCLUDED.files,
+         updated_at = NOW()`,
+      [jobId, cursor.side, cursor.cloudProviderId, cursor.rootPath, cursor.cursor, JSON.stringify(cursor.files)]
+    );
+  }
+
+  /**
+   * Last synced state of every path of a two-way sync, keyed by relative path
+   */
+  public async getSyncBaseline(jobId: string): Promise<Map<string, SyncBaselineEntry>> {
+    const result = await query(
+      'SELECT * FROM sync_baselines WHERE sync_job_id = $1',
+      [jobId]
+    );
+
+    return new Map(result.rows.map((row: any) => {
+      const entry = this.mapDbRowToSyncBaselineEntry(row);
+      return [entry.relativePath, entry];
+    }));
+  }
+
+  /**
+   * Record a path as in sync on both sides
+   */
+  public async saveSyncBaseline(jobId: string, entry: Omit<SyncBaselineEntry, 'syncedAt'>): Promise<void> {
+    await query(
+      `INSERT INTO sync_baselines (
+        sync_job_id, relative_path, file_type,
+        source_file_id, source_size, source_modified_at, source_checksum,
+        destination_file_id, destination_size, destination_modified_at, destination_checksum
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (sync_job_id, relative_path) DO UPDATE SET
+        file_type = EXCLUDED.file_type,
+        source_file_id = EXCLUDED.source_file_id,
+        source_size = EXCLUDED.source_size,
+        source_modified_at = EXCLUDED.source_modified_at,
+        source_checksum = EXCLUDED.source_checksum,
+        destination_file_id = EXCLUDED.destination_file_id,
+        destination_size = EXCLUDED.destination_size,
+        destination_modified_at = EXCLUDED.destination_modified_at,
+        destination_checksum = EXCLUDED.destination_checksum,
+        synced_at = NOW()`,
+      [
+        jobId, entry.relativePath, entry.fileType,
+        entry.source.fileId, entry.source.size, entry.source.modifiedAt, entry.source.checksum,
+        entry.destination.fileId, entry.destination.size, entry.destination.modifiedAt, entry.destination.checksum
+      ]
+    );
+  }
+
+  /**
+   * Forget a path, and everything below it when it was a folder
+   */
+  public async removeSyncBaseline(jobId: string, relativePath: string): Promise<void> {
+    await query(
+      `DELETE FROM sync_baselines
+       WHERE sync_job_id = $1 AND (relative_path = $2 OR LEFT(relative_path, LENGTH($2) + 1) = $2 || '/')`,
+      [jobId, relativePath]
+    );
+  }
+
+  /**
+   * Carry the baseline of a moved path, and everything inside it, over to
+   * its new path
+   */
+  public async moveSyncBaseline(jobId: string, fromPath: string, toPath: string): Promise<void> {
+    await this.removeSyncBaseline(jobId, toPath);
+    await query(
+      `UPDATE sync_baselines
+       SET relative_path = $3 || SUBSTRING(relative_path FROM LENGTH($2) + 1)
+       WHERE sync_job_id = $1 AND (relative_path = $2 OR LEFT(relative_path, LENGTH($2) + 1) = $2 || '/')`,
+      [jobId, fromPath, toPath]
+    );
+  }
+
+  /**
+   * Record a conflict and how it was resolved. Skipped conflicts stay out
+   * of the baseline, so they are reported again until resolved.
+   */
+  public async recordSyncConflict(
+    jobId: string,
+    conflict: Omit<SyncConflict, 'id' | 'syncJobId' | 'createdAt'>
+  ): Promise<SyncConflict> {
+    const result = await query(
+      `INSERT INTO sync_conflicts (sync_job_id, relative_path, reason, resolution, kept_side, conflict_copy_path)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [jobId, conflict.relativePath, conflict.reason, conflict.resolution, conflict.keptSide, conflict.conflictCopyPath]
+    );
+
+    const recorded = this.mapDbRowToSyncConflict(result.rows[0]);
+    this.emit('syncConflict', recorded);
+
+    return recorded;
+  }
+
+  /**
+   * Conflicts recorded for a sync job, newest first
+   */
+  public async getSyncConflicts(
+    jobId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ conflicts: SyncConflict[]; total: number }> {
+    const offset = (page - 1) * limit;
+
+    const countResult = await query(
+      'SELECT COUNT(*) as total FROM sync_conflicts WHERE sync_job_id = $1',
+      [jobId]
+    );
+
+    const result = await query(
+      `SELECT * FROM sync_conflicts WHERE sync_job_id = $1
+       ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+      [jobId, limit, offset]
+    );
+
+    return {
+      conflicts: result.rows.map((row: any) => this.mapDbRowToSyncConflict(row)),
+      total: parseInt(countResult.rows[0].total)
+    };
+  }
+
   /**
    * Get active sync count
    */
@@ -391,6 +1061,26 @@ export class SyncEngine extends EventEmitter {
 
   // Private helper methods
 
+  /**
+   * Keep the leases of running syncs alive; stops once none are left
+   */
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+
+    this.heartbeat = setInterval(() => {
+      if (this.activeSyncs.size === 0) {
+        clearInterval(this.heartbeat!);
+        this.heartbeat = undefined;
+        return;
+      }
+
+      JobLease.renew('sync_jobs', Array.from(this.activeSyncs.keys()))
+        .catch(error => logger.error('Failed to renew sync leases:', error));
+    }, JobLease.HEARTBEAT_INTERVAL_MS);
+
+    this.heartbeat.unref();
+  }
+
   private async initializeScheduledJobs(): Promise<void> {
     try {
       const result = await query(
@@ -414,7 +1104,7 @@ export class SyncEngine extends EventEmitter {
     try {
       const task = cron.schedule(job.scheduleCron, async () => {
         try {
-          await this.startSync(job.id);
+          await this.startSync(job.id, 'cron');
         } catch (error) {
           logger.error(`Scheduled sync failed: ${job.id}`, error);
         }
@@ -446,17 +1136,13 @@ export class SyncEngine extends EventEmitter {
     }
   }
 
-  private calculateNextSync(cronExpression: string): Date {
-    // This is a simplified calculation
-    // In a real implementation, you might want to use a more robust cron parser
+  private calculateNextSync(cronExpression: string): Date | null {
     const interval = cron.validate(cronExpression);
     if (!interval) {
       throw new Error('Invalid cron expression');
     }
 
-    // For now, return next hour as placeholder
-    // TODO: Implement proper cron parsing
-    return new Date(Date.now() + 60 * 60 * 1000);
+    return CronSchedule.next(cronExpression) || null;
   }
 
   private async validateCloudProviders(sourceId: string, destinationId: string): Promise<void> {
@@ -501,6 +1187,98 @@ export class SyncEngine extends EventEmitter {
     };
   }
 
+  private mapDbRowToSyncBaselineEntry(row: any): SyncBaselineEntry {
+    return {
+      relativePath: row.relative_path,
+      fileType: row.file_type,
+      source: {
+        fileId: row.source_file_id || undefined,
+        size: row.source_size !== null ? parseInt(row.source_size) : undefined,
+        modifiedAt: row.source_modified_at || undefined,
+        checksum: row.source_checksum || undefined
+      },
+      destination: {
+        fileId: row.destination_file_id || undefined,
+        size: row.destination_size !== null ? parseInt(row.destination_size) : undefined,
+        modifiedAt: row.destination_modified_at || undefined,
+        checksum: row.destination_checksum || undefined
+      },
+      syncedAt: row.synced_at
+    };
+  }
+
+  private mapDbRowToSyncChangeCursor(row: any): SyncChangeCursor {
+    const files: FileItem[] = typeof row.files === 'string' ? JSON.parse(row.files) : row.files || [];
+
+    return {
+      side: row.side,
+      cloudProviderId: row.cloud_provider_id,
+      rootPath: row.root_path,
+      cursor: row.cursor,
+      // Dates come back from JSON as strings
+      files: files.map(file => ({
+        ...file,
+        modifiedAt: file.modifiedAt ? new Date(file.modifiedAt) : undefined,
+        createdAt: file.createdAt ? new Date(file.createdAt) : undefined
+      })),
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapDbRowToSyncConflict(row: any): SyncConflict {
+    return {
+      id: row.id,
+      syncJobId: row.sync_job_id,
+      relativePath: row.relative_path,
+      reason: row.reason,
+      resolution: row.resolution,
+      keptSide: row.kept_side || undefined,
+      conflictCopyPath: row.conflict_copy_path || undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapDbRowToSyncRun(row: any): SyncRun {
+    const startedAt: Date = row.started_at;
+    const completedAt: Date | undefined = row.completed_at || undefined;
+
+    return {
+      id: row.id,
+      syncJobId: row.sync_job_id,
+      trigger: row.triggered_by,
+      status: row.status,
+      filesProcessed: row.files_processed || 0,
+      filesAdded: row.files_added || 0,
+      filesUpdated: row.files_updated || 0,
+      filesDeleted: row.files_deleted || 0,
+      filesFailed: row.files_failed || 0,
+      conflicts: row.conflicts || 0,
+      bytesTransferred: Number(row.bytes_transferred || 0),
+      duration: completedAt
+        ? Math.round((new Date(completedAt).getTime() - new Date(startedAt).getTime()) / 1000)
+        : undefined,
+      errorMessage: row.error_message || undefined,
+      pendingDeletions: row.pending_deletions || undefined,
+      deletionsApprovedAt: row.deletions_approved_at || undefined,
+      startedAt,
+      completedAt
+    };
+  }
+
+  private mapDbRowToFileTransferLog(row: any): FileTransferLog {
+    return {
+      id: row.id,
+      syncJobId: row.sync_job_id,
+      syncRunId: row.sync_run_id,
+      filePath: row.file_path,
+      fileSize: row.file_size !== null ? Number(row.file_size) : undefined,
+      status: row.status,
+      errorMessage: row.error_message || undefined,
+      transferredAt: row.transferred_at || undefined,
+      createdAt: row.created_at
+    };
+  }
+
   private camelToSnakeCase(str: string): string {
     return str.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
   }
@@ -515,10 +1293,26 @@ class SyncExecution {
   private sourceProvider?: ICloudProvider;
   private destProvider?: ICloudProvider;
   private stopped = false;
-
-  constructor(job: SyncJob, engine: SyncEngine) {
+  private sourceName = '';
+  private destName = '';
+  private readonly runId?: string; // unset for previews
+  private readonly approvedDeletions: SyncPendingDeletion[];
+  private readonly backupFolders = new Set<string>(); // backup folders known to exist
+  private readonly stats: SyncRunStats = {
+    filesProcessed: 0,
+    filesAdded: 0,
+    filesUpdated: 0,
+    filesDeleted: 0,
+    filesFailed: 0,
+    conflicts: 0,
+    bytesTransferred: 0
+  };
+
+  constructor(job: SyncJob, engine: SyncEngine, runId?: string, approvedDeletions: SyncPendingDeletion[] = []) {
     this.job = job;
     this.engine = engine;
+    this.runId = runId;
+    this.approvedDeletions = approvedDeletions;
   }
 
   public async start(): Promise<void> {
@@ -526,337 +1320,1242 @@ class SyncExecution {
       // Initialize providers
       await this.initializeProviders();
 
-      // Start sync process based on mode
-      switch (this.job.syncMode) {
-        case 'one_way':
-          await this.performOneWaySync();
-          break;
-        case 'two_way':
-          await this.performTwoWaySync();
-          break;
-        case 'mirror':
-          await this.performMirrorSync();
-          break;
-        default:
-          throw new Error(`Unknown sync mode: ${this.job.syncMode}`);
+      // Work out what the sync mode calls for
+      const plan = await this.planOperations();
+      const { operations, settled } = plan;
+
+      // Don't let an emptied or misconfigured side wipe the other one
+      const deletionWarning = this.checkDeletions(plan);
+      if (deletionWarning && this.runId) {
+        await this.engine.blockSyncRun(this.job, this.runId, deletionWarning, this.getPendingDeletions(operations));
+        await this.engine.completeSync(this.job.id, 'blocked');
+        return;
+      }
+
+      if (this.job.syncMode === 'two_way') {
+        // Paths that already agree only need their baseline brought up to date
+        for (const diff of settled) {
+          await this.settleBaseline(diff);
+        }
+
+        // Execute operations, recording each path once it is in sync
+        await this.executeOperations(operations, (operation, written) => this.updateBaseline(operation, written));
+      } else {
+        await this.executeOperations(operations);
       }
 
-      await this.engine.completeSync(this.job.id, true);
+      await this.pruneBackups();
+
+      if (this.runId) {
+        const status = this.stopped ? 'cancelled' : this.stats.filesFailed > 0 ? 'partial' : 'completed';
+        await this.engine.finishSyncRun(this.runId, status, this.stats);
+      }
+
+      await this.engine.completeSync(this.job.id, this.stopped ? 'cancelled' : 'completed');
 
     } catch (error) {
       logger.error(`Sync execution failed: ${this.job.id}`, error);
-      await this.engine.completeSync(this.job.id, false);
+
+      if (this.runId) {
+        const message = error instanceof Error ? error.message : 'Sync failed';
+        await this.engine.finishSyncRun(this.runId, 'failed', this.stats, message);
+      }
+
+      await this.engine.completeSync(this.job.id, 'failed');
     }
   }
 
+  /**
+   * Compute what the sync would do without changing either side
+   */
+  public async preview(): Promise<SyncPreview> {
+    await this.initializeProviders();
+
+    const plan = await this.planOperations();
+    return { ...this.buildPreview(plan.operations), deletionWarning: this.checkDeletions(plan) };
+  }
+
   public async stop(): Promise<void> {
     this.stopped = true;
   }
 
   private async initializeProviders(): Promise<void> {
-    // Get cloud provider configs from database
-    const sourceResult = await query(
-      'SELECT * FROM cloud_providers WHERE id = $1',
-      [this.job.sourceCloudId]
-    );
+    const [source, destination] = await Promise.all([
+      this.engine.connectProvider(this.job.sourceCloudId),
+      this.engine.connectProvider(this.job.destinationCloudId)
+    ]);
 
-    const destResult = await query(
-      'SELECT * FROM cloud_providers WHERE id = $1',
-      [this.job.destinationCloudId]
-    );
+    this.sourceProvider = source.provider;
+    this.destProvider = destination.provider;
 
-    if (sourceResult.rows.length === 0 || destResult.rows.length === 0) {
-      throw new Error('Cloud provider configuration not found');
-    }
-
-    const sourceConfig = sourceResult.rows[0];
-    const destConfig = destResult.rows[0];
+    // Used to name conflict copies
+    this.sourceName = source.name;
+    this.destName = destination.name;
+  }
 
-    // Create provider instances
-    this.sourceProvider = await cloudProviderFactory.createProvider(
-      sourceConfig.provider_type,
-      sourceConfig.config ? JSON.parse(sourceConfig.config) : {}
-    );
+  /**
+   * Compare both sides and return the operations the sync mode calls for,
+   * plus the two-way paths that already agree
+   */
+  private async planOperations(): Promise<SyncPlan> {
+    const { sourceTree, destTree } = await this.loadTrees();
+    const trees = { sourceTree, destTree };
+
+    switch (this.job.syncMode) {
+      case 'one_way':
+        await this.hashTrees(sourceTree, destTree);
+        return { ...trees, operations: this.calculateOneWayOperations(sourceTree, destTree), settled: [] };
+      case 'two_way': {
+        // Bidirectional operations against the last synced state
+        const baseline = await this.engine.getSyncBaseline(this.job.id);
+        await this.hashTrees(sourceTree, destTree, baseline);
+
+        const diffs = SyncBaseline.diff(sourceTree, destTree, baseline, this.getCompareMode());
+        const { operations, settled } = this.calculateTwoWayOperations(diffs);
+        return { ...trees, operations: this.detectMoves(operations, sourceTree, destTree, baseline), settled };
+      }
+      case 'mirror': {
+        // Destination matches source exactly
+        await this.hashTrees(sourceTree, destTree);
 
-    this.destProvider = await cloudProviderFactory.createProvider(
-      destConfig.provider_type,
-      destConfig.config ? JSON.parse(destConfig.config) : {}
-    );
+        const operations = this.calculateMirrorOperations(sourceTree, destTree);
+        return { ...trees, operations: this.detectMoves(operations, sourceTree, destTree), settled: [] };
+      }
+      default:
+        throw new Error(`Unknown sync mode: ${this.job.syncMode}`);
+    }
+  }
 
-    // Authenticate providers
-    await this.sourceProvider.authenticate(
-      JSON.parse(sourceConfig.credentials),
-      sourceConfig.config ? JSON.parse(sourceConfig.config) : {}
+  /**
+   * Why the planned deletions need approval first, if they do
+   */
+  private checkDeletions(plan: SyncPlan): string | undefined {
+    const deletions = this.getPendingDeletions(plan.operations);
+    if (deletions.length === 0) return undefined;
+
+    return DeletionSafeguard.check(
+      deletions,
+      { source: [...plan.sourceTree.keys()], destination: [...plan.destTree.keys()] },
+      this.job.options,
+      this.approvedDeletions
     );
+  }
 
-    await this.destProvider.authenticate(
-      JSON.parse(destConfig.credentials),
-      destConfig.config ? JSON.parse(destConfig.config) : {}
-    );
+  private getPendingDeletions(operations: SyncOperation[]): SyncPendingDeletion[] {
+    return operations
+      .filter(operation => operation.type === 'delete')
+      .map(operation => ({
+        side: operation.direction === 'source_to_dest' ? 'destination' : 'source',
+        relativePath: operation.relativePath
+      }));
   }
 
-  private async performOneWaySync(): Promise<void> {
-    if (!this.sourceProvider || !this.destProvider) {
-      throw new Error('Providers not initialized');
-    }
+  /**
+   * Group operations by action for a dry run
+   */
+  private buildPreview(operations: SyncOperation[]): SyncPreview {
+    const preview: SyncPreview = {
+      syncJobId: this.job.id,
+      syncMode: this.job.syncMode,
+      uploads: [],
+      downloads: [],
+      createFolders: [],
+      moves: [],
+      deletes: [],
+      conflicts: [],
+      totalOperations: operations.length,
+      totalConflicts: 0,
+      totalBytes: 0,
+      generatedAt: new Date()
+    };
 
-    // Get source files
-    const sourceFiles = await this.sourceProvider.listFiles(
-      this.job.sourcePath,
-      this.job.filters
-    );
+    for (const operation of operations) {
+      if (operation.type === 'conflict') {
+        preview.conflicts.push({
+          relativePath: operation.relativePath,
+          reason: operation.reason || 'Sync conflict',
+          sourceFile: SyncBaseline.toState(operation.file),
+          destinationFile: operation.destinationFile && SyncBaseline.toState(operation.destinationFile),
+          resolution: this.job.conflictResolution
+        });
+        continue;
+      }
 
-    // Get destination files
-    const destFiles = await this.destProvider.listFiles(
-      this.job.destinationPath,
-      this.job.filters
-    );
+      const item: SyncPreviewItem = {
+        relativePath: operation.relativePath,
+        path: operation.destinationPath,
+        side: operation.direction === 'source_to_dest' ? 'destination' : 'source',
+        type: operation.file.type,
+        size: operation.file.size,
+        movedFrom: operation.movedFrom?.path
+      };
 
-    // Calculate operations
-    const operations = this.calculateOneWayOperations(sourceFiles, destFiles);
+      switch (operation.type) {
+        case 'upload':
+          preview.uploads.push(item);
+          preview.totalBytes += item.size || 0;
+          break;
+        case 'download':
+          preview.downloads.push(item);
+          preview.totalBytes += item.size || 0;
+          break;
+        case 'create_folder':
+          preview.createFolders.push(item);
+          break;
+        case 'move':
+          preview.moves.push(item);
+          break;
+        case 'delete':
+          preview.deletes.push(item);
+          break;
+      }
+    }
 
-    // Execute operations
-    await this.executeOperations(operations);
+    preview.totalConflicts = preview.conflicts.length;
+    return preview;
   }
 
-  private async performTwoWaySync(): Promise<void> {
+  /**
+   * Walk both sides down to maxSyncDepth and index them by relative path
+   */
+  private async loadTrees(): Promise<{ sourceTree: SyncTree; destTree: SyncTree }> {
     if (!this.sourceProvider || !this.destProvider) {
       throw new Error('Providers not initialized');
     }
 
-    // Get files from both sides
-    const sourceFiles = await this.sourceProvider.listFiles(
-      this.job.sourcePath,
-      this.job.filters
-    );
+    const walkOptions = {
+      filters: this.job.filters,
+      maxDepth: this.job.options?.maxSyncDepth,
+      shouldStop: () => this.stopped
+    };
 
-    const destFiles = await this.destProvider.listFiles(
-      this.job.destinationPath,
-      this.job.filters
-    );
+    const [sourceEntries, destEntries] = await Promise.all([
+      this.loadSide('source', this.sourceProvider, this.job.sourceCloudId, this.job.sourcePath, walkOptions),
+      this.loadSide('destination', this.destProvider, this.job.destinationCloudId, this.job.destinationPath, walkOptions)
+    ]);
 
-    // Calculate bidirectional operations
-    const operations = this.calculateTwoWayOperations(sourceFiles, destFiles);
+    // A backup folder inside the destination is not part of the sync
+    const syncedDestEntries = destEntries.filter(entry => !this.isInBackupFolder(entry.file.path));
 
-    // Execute operations
-    await this.executeOperations(operations);
+    return {
+      sourceTree: new Map(sourceEntries.map(entry => [entry.relativePath, entry])),
+      destTree: new Map(syncedDestEntries.map(entry => [entry.relativePath, entry]))
+    };
   }
 
-  private async performMirrorSync(): Promise<void> {
-    if (!this.sourceProvider || !this.destProvider) {
-      throw new Error('Providers not initialized');
+  /**
+   * Entries of one side. Providers with a change feed only report what
+   * changed since the job's stored cursor, which is applied to the files
+   * stored with it; others are walked in full. Feeds that compare listings
+   * would only add storing the listing to the walk, so they are walked too.
+   */
+  private async loadSide(
+    side: SyncChangeCursor['side'],
+    provider: ICloudProvider,
+    providerId: string,
+    rootPath: string,
+    walkOptions: FileTreeWalkOptions
+  ): Promise<FileTreeEntry[]> {
+    if (!provider.getChanges || !provider.capabilities.supportsChangeFeed) {
+      return FileTreeWalker.walk(provider, rootPath, walkOptions);
     }
 
-    // Get files from both sides
-    const sourceFiles = await this.sourceProvider.listFiles(
-      this.job.sourcePath,
-      this.job.filters
-    );
+    // A cursor stored for another folder or provider doesn't apply
+    const stored = await this.engine.getSyncChangeCursor(this.job.id, side);
+    const usable = stored && stored.cloudProviderId === providerId && stored.rootPath === rootPath ? stored : undefined;
 
-    const destFiles = await this.destProvider.listFiles(
-      this.job.destinationPath,
-      this.job.filters
-    );
+    let files = usable?.files || [];
+    let cursor = usable?.cursor;
+    let hasMore = true;
 
-    // Calculate mirror operations (destination matches source exactly)
-    const operations = this.calculateMirrorOperations(sourceFiles, destFiles);
+    while (hasMore) {
+      if (this.stopped) return [];
 
-    // Execute operations
-    await this.executeOperations(operations);
+      const changeSet = await provider.getChanges(rootPath, cursor, { ...walkOptions, files });
+      files = ChangeFeed.apply(changeSet.reset ? [] : files, changeSet.changes);
+      cursor = changeSet.cursor;
+      hasMore = changeSet.hasMore;
+    }
+
+    await this.engine.saveSyncChangeCursor(this.job.id, { side, cloudProviderId: providerId, rootPath, cursor: cursor!, files });
+
+    return FileTreeWalker.fromFiles(rootPath, files, walkOptions);
   }
 
-  private calculateOneWayOperations(sourceFiles: FileItem[], destFiles: FileItem[]): SyncOperation[] {
+  private calculateOneWayOperations(sourceTree: SyncTree, destTree: SyncTree): SyncOperation[] {
     const operations: SyncOperation[] = [];
-    const destFileMap = new Map(destFiles.map(f => [f.name, f]));
 
-    for (const sourceFile of sourceFiles) {
+    for (const sourceEntry of sourceTree.values()) {
       if (this.stopped) break;
 
-      const destFile = destFileMap.get(sourceFile.name);
-      
-      if (!destFile) {
-        // File doesn't exist in destination - upload
-        operations.push({
-          type: 'upload',
-          sourcePath: sourceFile.path,
-          destinationPath: this.buildDestinationPath(sourceFile.path),
-          file: sourceFile,
-          direction: 'source_to_dest'
-        });
-      } else if (this.shouldUpdateFile(sourceFile, destFile)) {
-        // File exists but needs update
-        operations.push({
-          type: 'upload',
-          sourcePath: sourceFile.path,
-          destinationPath: destFile.path,
-          file: sourceFile,
-          direction: 'source_to_dest'
-        });
+      const operation = this.compareEntries(sourceEntry, destTree.get(sourceEntry.relativePath), 'source_to_dest');
+      if (operation) {
+        operations.push(operation);
       }
     }
 
     return operations;
   }
 
-  private calculateTwoWayOperations(sourceFiles: FileItem[], destFiles: FileItem[]): SyncOperation[] {
+  /**
+   * Turn a three-way diff into operations. A change on one side is copied to
+   * the other, including deletes; an edit beats a delete; different changes
+   * on both sides are conflicts. Paths whose sides already agree come back
+   * as settled.
+   */
+  private calculateTwoWayOperations(diffs: SyncPathDiff[]): { operations: SyncOperation[]; settled: SyncPathDiff[] } {
     const operations: SyncOperation[] = [];
-    const sourceFileMap = new Map(sourceFiles.map(f => [f.name, f]));
-    const destFileMap = new Map(destFiles.map(f => [f.name, f]));
+    const settled: SyncPathDiff[] = [];
+    const deletedFolders: string[] = [];
 
-    // Process source files
-    for (const sourceFile of sourceFiles) {
+    for (const diff of diffs) {
       if (this.stopped) break;
 
-      const destFile = destFileMap.get(sourceFile.name);
-      
-      if (!destFile) {
-        operations.push({
-          type: 'upload',
-          sourcePath: sourceFile.path,
-          destinationPath: this.buildDestinationPath(sourceFile.path),
-          file: sourceFile,
-          direction: 'source_to_dest'
-        });
-      } else if (this.shouldUpdateFile(sourceFile, destFile)) {
-        operations.push({
-          type: 'upload',
-          sourcePath: sourceFile.path,
-          destinationPath: destFile.path,
-          file: sourceFile,
-          direction: 'source_to_dest'
-        });
+      const { relativePath, source, destination, sourceChange, destinationChange } = diff;
+
+      // Deleting a folder removes everything inside it
+      if (deletedFolders.some(folder => relativePath.startsWith(`${folder}/`))) continue;
+
+      if (sourceChange === 'none' && destinationChange === 'none') {
+        // Record hashes the baseline is missing so later edits are caught
+        if (this.usesChecksums() && this.baselineLacksChecksums(diff)) {
+          settled.push(diff);
+        }
+        continue;
+      }
+
+      if (!source && !destination) {
+        // Deleted on both sides
+        settled.push(diff);
+        continue;
+      }
+
+      if (source && destination && source.file.type !== destination.file.type) {
+        operations.push(this.createConflict(diff, 'a file on one side is a folder on the other'));
+        continue;
+      }
+
+      // Changed on one side only, or deleted on one side and edited on the other
+      if (destinationChange === 'none' || (destinationChange === 'deleted' && sourceChange !== 'none')) {
+        const operation = this.propagateChange(diff, 'source_to_dest', diffs, deletedFolders);
+        if (operation) operations.push(operation);
+        continue;
+      }
+
+      if (sourceChange === 'none' || (sourceChange === 'deleted' && destination)) {
+        const operation = this.propagateChange(diff, 'dest_to_source', diffs, deletedFolders);
+        if (operation) operations.push(operation);
+        continue;
+      }
+
+      // Created or modified on both sides
+      if (SyncBaseline.isSameContent(source!.file, destination!.file, this.hasComparableChecksums(), this.getCompareMode())) {
+        settled.push(diff);
+      } else {
+        operations.push(this.createConflict(diff, 'changed on both sides since the last sync'));
       }
     }
 
-    // Process destination files (opposite direction)
-    for (const destFile of destFiles) {
-      if (this.stopped) break;
+    return { operations, settled };
+  }
 
-      const sourceFile = sourceFileMap.get(destFile.name);
-      
-      if (!sourceFile) {
-        operations.push({
-          type: 'download',
-          sourcePath: destFile.path,
-          destinationPath: this.buildSourcePath(destFile.path),
-          file: destFile,
-          direction: 'dest_to_source'
-        });
-      } else if (this.shouldUpdateFile(destFile, sourceFile)) {
-        operations.push({
-          type: 'download',
-          sourcePath: destFile.path,
-          destinationPath: sourceFile.path,
-          file: destFile,
-          direction: 'dest_to_source'
-        });
+  /**
+   * Copy the side that changed onto the other one, or delete it there
+   */
+  private propagateChange(
+    diff: SyncPathDiff,
+    direction: SyncOperation['direction'],
+    diffs: SyncPathDiff[],
+    deletedFolders: string[]
+  ): SyncOperation | undefined {
+    const [changed, other] = direction === 'source_to_dest'
+      ? [diff.source, diff.destination]
+      : [diff.destination, diff.source];
+
+    if (changed) {
+      if (changed.file.type === 'folder') {
+        return other ? undefined : this.createFolderOperation(changed, direction);
       }
+
+      // The other side is unchanged since the last sync, so it may be replaced
+      return this.createCopyOperation(changed, other, direction, true);
     }
 
-    return operations;
+    const target = other!;
+
+    // Keep a deleted folder when the other side added or edited something inside it
+    if (target.file.type === 'folder') {
+      const otherChange = direction === 'source_to_dest' ? 'destinationChange' : 'sourceChange';
+      const changedInside = diffs.some(inner =>
+        inner.relativePath.startsWith(`${diff.relativePath}/`) &&
+        (inner[otherChange] === 'created' || inner[otherChange] === 'modified')
+      );
+
+      if (changedInside) {
+        return this.createFolderOperation(target, direction === 'source_to_dest' ? 'dest_to_source' : 'source_to_dest');
+      }
+
+      deletedFolders.push(diff.relativePath);
+    }
+
+    return {
+      type: 'delete',
+      relativePath: diff.relativePath,
+      sourcePath: target.file.path,
+      destinationPath: target.file.path,
+      file: target.file,
+      direction
+    };
   }
 
-  private calculateMirrorOperations(sourceFiles: FileItem[], destFiles: FileItem[]): SyncOperation[] {
-    const operations: SyncOperation[] = [];
-    const sourceFileMap = new Map(sourceFiles.map(f => [f.name, f]));
-    const destFileMap = new Map(destFiles.map(f => [f.name, f]));
+  private createCopyOperation(
+    from: FileTreeEntry,
+    to: FileTreeEntry | undefined,
+    direction: SyncOperation['direction'],
+    overwrite: boolean
+  ): SyncOperation {
+    const targetRoot = direction === 'source_to_dest' ? this.job.destinationPath : this.job.sourcePath;
 
-    // Upload new/updated files from source
-    for (const sourceFile of sourceFiles) {
-      if (this.stopped) break;
+    return {
+      type: direction === 'source_to_dest' ? 'upload' : 'download',
+      relativePath: from.relativePath,
+      sourcePath: from.file.path,
+      destinationPath: to?.file.path || FileTreeWalker.joinPath(targetRoot, from.relativePath),
+      file: from.file,
+      direction,
+      overwrite,
+      targetExists: !!to
+    };
+  }
 
-      const destFile = destFileMap.get(sourceFile.name);
-      
-      if (!destFile || this.shouldUpdateFile(sourceFile, destFile)) {
-        operations.push({
-          type: 'upload',
-          sourcePath: sourceFile.path,
-          destinationPath: destFile?.path || this.buildDestinationPath(sourceFile.path),
-          file: sourceFile,
-          direction: 'source_to_dest'
+  private createFolderOperation(folder: FileTreeEntry, direction: SyncOperation['direction']): SyncOperation {
+    const targetRoot = direction === 'source_to_dest' ? this.job.destinationPath : this.job.sourcePath;
+
+    return {
+      type: 'create_folder',
+      relativePath: folder.relativePath,
+      sourcePath: folder.file.path,
+      destinationPath: FileTreeWalker.joinPath(targetRoot, folder.relativePath),
+      file: folder.file,
+      direction
+    };
+  }
+
+  private createConflict(diff: SyncPathDiff, reason: string): SyncOperation {
+    const entry = (diff.source || diff.destination)!;
+
+    return {
+      type: 'conflict',
+      relativePath: diff.relativePath,
+      sourcePath: diff.source?.file.path || FileTreeWalker.joinPath(this.job.sourcePath, diff.relativePath),
+      destinationPath: diff.destination?.file.path || FileTreeWalker.joinPath(this.job.destinationPath, diff.relativePath),
+      file: entry.file,
+      destinationFile: diff.destination?.file,
+      direction: 'source_to_dest',
+      reason
+    };
+  }
+
+  /**
+   * Content hashes can only be compared across sides that use the same one
+   */
+  private hasComparableChecksums(): boolean {
+    if (this.usesChecksums()) return true;
+
+    const algorithm = this.sourceProvider!.capabilities.checksumAlgorithm;
+    return !!algorithm && algorithm === this.destProvider!.capabilities.checksumAlgorithm;
+  }
+
+  private baselineLacksChecksums(diff: SyncPathDiff): boolean {
+    return (!!diff.source?.file.checksum && !diff.baseline?.source.checksum) ||
+      (!!diff.destination?.file.checksum && !diff.baseline?.destination.checksum);
+  }
+
+  private getCompareMode(): SyncCompareMode {
+    return this.job.options?.compareMode || 'mtime_size';
+  }
+
+  private usesChecksums(): boolean {
+    const compareMode = this.getCompareMode();
+    return compareMode === 'checksum' || compareMode === 'checksum_cached';
+  }
+
+  /**
+   * In the checksum modes, hash files that may match one of the same size
+   * elsewhere, in one algorithm for both sides. Other checksums are dropped.
+   */
+  private async hashTrees(
+    sourceTree: SyncTree,
+    destTree: SyncTree,
+    baseline?: Map<string, SyncBaselineEntry>
+  ): Promise<void> {
+    if (!this.usesChecksums()) return;
+
+    const algorithm = ChecksumService.pickAlgorithm(
+      this.sourceProvider!.capabilities.supportedHashes,
+      this.destProvider!.capabilities.supportedHashes
+    );
+
+    // Sizes of files only one side has, which may have been moved
+    const orphanSizes = (tree: SyncTree, otherTree: SyncTree) => new Set(
+      [...tree.values()]
+        .filter(entry => entry.file.type === 'file' && !otherTree.has(entry.relativePath))
+        .map(entry => entry.file.size)
+    );
+    const movable = this.job.syncMode === 'one_way'
+      ? { source: new Set<number | undefined>(), destination: new Set<number | undefined>() }
+      : { source: orphanSizes(sourceTree, destTree), destination: orphanSizes(destTree, sourceTree) };
+
+    const needsHash = (entry: FileTreeEntry, other?: FileTreeEntry, previous?: SyncFileState, otherOrphans?: Set<number | undefined>) =>
+      entry.file.type === 'file' &&
+      ((other?.file.type === 'file' && other.file.size === entry.file.size) ||
+        previous?.size === entry.file.size ||
+        (!other && !!otherOrphans?.has(entry.file.size)));
+
+    const sides = [
+      {
+        side: 'source' as const,
+        provider: this.sourceProvider!,
+        providerId: this.job.sourceCloudId,
+        tree: sourceTree,
+        otherTree: destTree,
+        otherOrphans: movable.destination
+      },
+      {
+        side: 'destination' as const,
+        provider: this.destProvider!,
+        providerId: this.job.destinationCloudId,
+        tree: destTree,
+        otherTree: sourceTree,
+        otherOrphans: movable.source
+      }
+    ];
+
+    for (const { side, provider, providerId, tree, otherTree, otherOrphans } of sides) {
+      const toHash = new Set([...tree.values()].filter(entry =>
+        needsHash(entry, otherTree.get(entry.relativePath), baseline?.get(entry.relativePath)?.[side], otherOrphans)
+      ));
+
+      const cached = this.getCompareMode() === 'checksum_cached'
+        ? await this.engine.getCachedFileHashes(providerId, algorithm, [...toHash].map(entry => entry.file))
+        : new Map<string, string>();
+
+      for (const entry of tree.values()) {
+        if (this.stopped) return;
+        if (!toHash.has(entry)) {
+          if (provider.capabilities.checksumAlgorithm !== algorithm) {
+            entry.file.checksum = undefined;
+          }
+          continue;
+        }
+
+        try {
+          entry.file.checksum = await this.hashFile(provider, providerId, entry.file, algorithm, cached);
+        } catch (error) {
+          // Falls back to comparing sizes and modification times
+          logger.warn(`Failed to hash ${entry.file.path}:`, error);
+          entry.file.checksum = undefined;
+        }
+      }
+    }
+  }
+
+  /**
+   * Hash of a file from its listing, the cache, the provider, or by
+   * downloading it, in that order
+   */
+  private async hashFile(
+    provider: ICloudProvider,
+    providerId: string,
+    file: FileItem,
+    algorithm: ChecksumAlgorithm,
+    cached: Map<string, string>
+  ): Promise<string | undefined> {
+    if (file.checksum && provider.capabilities.checksumAlgorithm === algorithm) {
+      return file.checksum.toLowerCase();
+    }
+
+    const cachedHash = cached.get(file.path);
+    if (cachedHash) return cachedHash;
+
+    let checksum: string | undefined;
+
+    if (provider.getFileHash && provider.capabilities.supportedHashes.includes(algorithm)) {
+      checksum = await provider.getFileHash(file.path, algorithm);
+    }
+
+    if (!checksum) {
+      checksum = await ChecksumService.hashStream(await provider.downloadFile(file.path), algorithm);
+    }
+
+    if (this.getCompareMode() === 'checksum_cached') {
+      await this.engine.saveFileHash(providerId, file, algorithm, checksum);
+    }
+
+    return checksum.toLowerCase();
+  }
+
+  private async settleBaseline(diff: SyncPathDiff): Promise<void> {
+    try {
+      if (diff.source && diff.destination) {
+        await this.engine.saveSyncBaseline(this.job.id, {
+          relativePath: diff.relativePath,
+          fileType: diff.source.file.type,
+          source: SyncBaseline.toState(diff.source.file),
+          destination: SyncBaseline.toState(diff.destination.file)
         });
+      } else {
+        await this.engine.removeSyncBaseline(this.job.id, diff.relativePath);
       }
+    } catch (error) {
+      logger.error(`Failed to update sync baseline for ${diff.relativePath}:`, error);
+    }
+  }
+
+  /**
+   * Record the state both sides share after an operation
+   */
+  private async updateBaseline(operation: SyncOperation, written?: FileItem): Promise<void> {
+    try {
+      switch (operation.type) {
+        case 'upload':
+        case 'download': {
+          // The copy has the same content, so the same hash
+          const copied = SyncBaseline.toState(operation.file);
+          const stored = SyncBaseline.toState(
+            this.usesChecksums() ? { ...written!, checksum: operation.file.checksum } : written!
+          );
+
+          await this.engine.saveSyncBaseline(this.job.id, {
+            relativePath: operation.relativePath,
+            fileType: 'file',
+            source: operation.type === 'upload' ? copied : stored,
+            destination: operation.type === 'upload' ? stored : copied
+          });
+          break;
+        }
+        case 'create_folder': {
+          // The id lets a later rename of the folder be told apart from a new one
+          const created = { fileId: operation.file.id };
+
+          await this.engine.saveSyncBaseline(this.job.id, {
+            relativePath: operation.relativePath,
+            fileType: 'folder',
+            source: operation.direction === 'source_to_dest' ? created : {},
+            destination: operation.direction === 'source_to_dest' ? {} : created
+          });
+          break;
+        }
+        case 'move': {
+          // Whatever was inside moved along, unchanged
+          await this.engine.moveSyncBaseline(this.job.id, operation.movedFrom!.relativePath, operation.relativePath);
+
+          const changed = operation.file.type === 'folder' ? { fileId: operation.file.id } : SyncBaseline.toState(operation.file);
+          const moved = operation.file.type === 'folder' ? { fileId: written?.id } : SyncBaseline.toState(
+            this.usesChecksums() ? { ...written!, checksum: operation.file.checksum } : written!
+          );
+
+          await this.engine.saveSyncBaseline(this.job.id, {
+            relativePath: operation.relativePath,
+            fileType: operation.file.type,
+            source: operation.direction === 'source_to_dest' ? changed : moved,
+            destination: operation.direction === 'source_to_dest' ? moved : changed
+          });
+          break;
+        }
+        case 'delete':
+          await this.engine.removeSyncBaseline(this.job.id, operation.relativePath);
+          break;
+      }
+    } catch (error) {
+      logger.error(`Failed to update sync baseline for ${operation.relativePath}:`, error);
     }
+  }
 
-    // Delete files that don't exist in source
-    for (const destFile of destFiles) {
+  private calculateMirrorOperations(sourceTree: SyncTree, destTree: SyncTree): SyncOperation[] {
+    // Upload new/updated files from source
+    const operations = this.calculateOneWayOperations(sourceTree, destTree);
+    const deletedFolders: string[] = [];
+
+    // Delete entries that don't exist in source
+    for (const destEntry of destTree.values()) {
       if (this.stopped) break;
 
-      if (!sourceFileMap.has(destFile.name)) {
-        operations.push({
-          type: 'delete',
-          sourcePath: destFile.path,
-          destinationPath: destFile.path,
-          file: destFile,
-          direction: 'source_to_dest'
-        });
+      const { relativePath } = destEntry;
+      if (sourceTree.has(relativePath)) continue;
+
+      // Deleting a folder removes everything inside it
+      if (deletedFolders.some(folder => relativePath.startsWith(`${folder}/`))) continue;
+
+      if (destEntry.file.type === 'folder') {
+        deletedFolders.push(relativePath);
       }
+
+      operations.push({
+        type: 'delete',
+        relativePath,
+        sourcePath: destEntry.file.path,
+        destinationPath: destEntry.file.path,
+        file: destEntry.file,
+        direction: 'source_to_dest'
+      });
     }
 
     return operations;
   }
 
-  private async executeOperations(operations: SyncOperation[]): Promise<void> {
+  /**
+   * Replace a delete and a copy of the same content to another path with a
+   * move on the side being changed, so renamed files and folders aren't
+   * transferred again. Two-way syncs match by the changed side's file id
+   * or checksum in the baseline, mirrors by checksum, or by name, size and
+   * modification time when checksums can't be compared.
+   */
+  private detectMoves(
+    operations: SyncOperation[],
+    sourceTree: SyncTree,
+    destTree: SyncTree,
+    baseline?: Map<string, SyncBaselineEntry>
+  ): SyncOperation[] {
+    let planned = operations;
+
+    for (const direction of ['source_to_dest', 'dest_to_source'] as const) {
+      const [changedTree, targetTree] = direction === 'source_to_dest' ? [sourceTree, destTree] : [destTree, sourceTree];
+      const changedSide = direction === 'source_to_dest' ? 'source' : 'destination';
+      const targetProvider = direction === 'source_to_dest' ? this.destProvider! : this.sourceProvider!;
+
+      if (!targetProvider.capabilities.supportsMove) continue;
+
+      const deletes = planned.filter(operation => operation.type === 'delete' && operation.direction === direction);
+      const copies = planned.filter(operation =>
+        operation.direction === direction && !operation.targetExists &&
+        (operation.type === 'upload' || operation.type === 'download' || operation.type === 'create_folder')
+      );
+      if (deletes.length === 0 || copies.length === 0) continue;
+
+      const inside = (tree: Iterable<[string, MoveCandidate]>, folder: string) =>
+        [...tree]
+          .filter(([relativePath]) => relativePath.startsWith(`${folder}/`))
+          .map(([relativePath, candidate]) => ({ ...candidate, relativePath: relativePath.slice(folder.length + 1) }));
+
+      const fromEntries = (tree: SyncTree) =>
+        [...tree].map(([relativePath, entry]): [string, MoveCandidate] => [relativePath, this.toMoveCandidate(entry.file, relativePath)]);
+
+      // Deleted entries as the changed side last had them, when known
+      const removedTree = baseline
+        ? [...baseline].map(([relativePath, entry]): [string, MoveCandidate] => [
+          relativePath,
+          { ...entry[changedSide], relativePath, type: entry.fileType }
+        ])
+        : fromEntries(targetTree);
+      const removedByPath = new Map(removedTree);
+      const addedTree = fromEntries(changedTree);
+
+      const removed = deletes
+        .filter(operation => removedByPath.has(operation.relativePath))
+        .map(operation => ({
+          ...removedByPath.get(operation.relativePath)!,
+          children: operation.file.type === 'folder' ? inside(removedTree, operation.relativePath) : undefined
+        }));
+      const added = copies.map(operation => ({
+        ...this.toMoveCandidate(operation.file, operation.relativePath),
+        children: operation.file.type === 'folder' ? inside(addedTree, operation.relativePath) : undefined
+      }));
+
+      const options: MoveMatchOptions = {
+        compareIds: !!baseline,
+        compareChecksums: !!baseline || this.hasComparableChecksums()
+      };
+      const matches = MoveDetector.match(removed, added, options);
+      if (matches.length === 0) continue;
+
+      const movedFrom = new Map(matches.map(match => [match.to.relativePath, match.from.relativePath]));
+      const carried = new Set(matches.flatMap(match =>
+        MoveDetector.movedChildren(match, options).map(child => `${match.to.relativePath}/${child}`)
+      ));
+      const deleteByPath = new Map(deletes.map(operation => [operation.relativePath, operation]));
+      const replaced = new Set(matches.map(match => deleteByPath.get(match.from.relativePath)));
+
+      const copySet = new Set(copies);
+
+      planned = planned
+        .filter(operation => !replaced.has(operation) && !(copySet.has(operation) && carried.has(operation.relativePath)))
+        .map(operation => {
+          const from = copySet.has(operation) && movedFrom.get(operation.relativePath);
+          if (!from) return operation;
+
+          logger.info(`Detected move of ${from} to ${operation.relativePath} in sync ${this.job.id}`);
+          return {
+            ...operation,
+            type: 'move',
+            movedFrom: { relativePath: from, path: deleteByPath.get(from)!.destinationPath }
+          };
+        });
+    }
+
+    return planned;
+  }
+
+  private toMoveCandidate(file: FileItem, relativePath: string): MoveCandidate {
+    return {
+      relativePath,
+      type: file.type,
+      fileId: file.id,
+      checksum: file.checksum,
+      size: file.size,
+      modifiedAt: file.modifiedAt
+    };
+  }
+
+  /**
+   * Work out what brings the other side up to date with one entry, if anything
+   */
+  private compareEntries(
+    from: FileTreeEntry,
+    to: FileTreeEntry | undefined,
+    direction: SyncOperation['direction']
+  ): SyncOperation | undefined {
+    const targetRoot = direction === 'source_to_dest' ? this.job.destinationPath : this.job.sourcePath;
+    const base = {
+      relativePath: from.relativePath,
+      sourcePath: from.file.path,
+      destinationPath: to?.file.path || FileTreeWalker.joinPath(targetRoot, from.relativePath),
+      file: from.file,
+      direction
+    };
+
+    if (to && to.file.type !== from.file.type) {
+      logger.warn(`Skipping ${from.relativePath}: a file on one side is a folder on the other`);
+      return undefined;
+    }
+
+    if (from.file.type === 'folder') {
+      // Folders are listed before their contents, so they are created first
+      return !to && this.job.options?.createMissingFolders !== false
+        ? { ...base, type: 'create_folder' }
+        : undefined;
+    }
+
+    if (!to || this.shouldUpdateFile(from.file, to.file)) {
+      return { ...base, type: direction === 'source_to_dest' ? 'upload' : 'download', targetExists: !!to };
+    }
+
+    return undefined;
+  }
+
+  private async executeOperations(
+    operations: SyncOperation[],
+    onCompleted?: (operation: SyncOperation, written?: FileItem) => Promise<void>
+  ): Promise<void> {
     for (const operation of operations) {
       if (this.stopped) break;
 
       try {
-        await this.executeOperation(operation);
-      } catch (error) {
-        logger.error(`Sync operation failed:`, error);
-        
-        // Handle conflict resolution
-        if (this.job.conflictResolution === 'skip') {
+        if (operation.type === 'conflict') {
+          this.stats.conflicts++;
+
+          // A resolved conflict ends as a copy of the winning version
+          const resolved = await this.resolveConflict(operation);
+          if (resolved) {
+            await onCompleted?.(resolved.operation, resolved.written);
+            await this.recordOperation(resolved.operation, 'completed');
+          } else {
+            await this.recordOperation(operation, 'skipped');
+          }
           continue;
-        } else if (this.job.conflictResolution === 'rename') {
-          // TODO: Implement file renaming logic
+        }
+
+        const written = await this.executeOperation(operation);
+        await onCompleted?.(operation, written);
+        await this.recordOperation(operation, 'completed');
+      } catch (error) {
+        // The target exists and couldn't be overwritten
+        if (error instanceof FileExistsError && (operation.type === 'upload' || operation.type === 'download')) {
+          this.stats.conflicts++;
+
+          try {
+            const written = await this.resolveExistingTarget(operation);
+            if (written) {
+              await onCompleted?.(operation, written);
+              await this.recordOperation({ ...operation, targetExists: true }, 'completed');
+            } else {
+              await this.recordOperation(operation, 'skipped');
+            }
+          } catch (resolveError) {
+            logger.error(`Failed to resolve sync conflict for ${operation.relativePath}:`, resolveError);
+            await this.recordOperation(operation, 'failed', resolveError);
+          }
           continue;
         }
-        // 'overwrite' will naturally retry the operation
+
+        logger.error(`Sync operation failed:`, error);
+        await this.recordOperation(operation, 'failed', error);
       }
     }
   }
 
-  private async executeOperation(operation: SyncOperation): Promise<void> {
+  /**
+   * Count an operation towards the run and log the path it wrote or deleted
+   */
+  private async recordOperation(
+    operation: SyncOperation,
+    status: 'completed' | 'skipped' | 'failed',
+    error?: unknown
+  ): Promise<void> {
+    this.stats.filesProcessed++;
+
+    if (status === 'failed') {
+      this.stats.filesFailed++;
+    } else if (status === 'completed') {
+      switch (operation.type) {
+        case 'upload':
+        case 'download':
+          if (operation.targetExists) {
+            this.stats.filesUpdated++;
+          } else {
+            this.stats.filesAdded++;
+          }
+          this.stats.bytesTransferred += operation.file.size || 0;
+          break;
+        case 'create_folder':
+          this.stats.filesAdded++;
+          break;
+        case 'move':
+          this.stats.filesUpdated++;
+          break;
+        case 'delete':
+          this.stats.filesDeleted++;
+          break;
+      }
+    }
+
+    if (!this.runId) return;
+
+    await this.engine.logSyncFile(this.job.id, this.runId, {
+      filePath: operation.destinationPath,
+      fileSize: operation.type === 'upload' || operation.type === 'download' ? operation.file.size : undefined,
+      status,
+      errorMessage: error instanceof Error ? error.message : error !== undefined ? String(error) : undefined
+    });
+  }
+
+  /**
+   * Resolve a path changed on both sides by the job's conflictResolution.
+   * The newer version wins, the source's on a tie; with 'rename' the other
+   * version is first kept next to it as a conflict copy.
+   */
+  private async resolveConflict(
+    operation: SyncOperation
+  ): Promise<{ operation: SyncOperation; written: FileItem } | undefined> {
+    const sourceFile = operation.file;
+    const destFile = operation.destinationFile;
+    const conflict = { relativePath: operation.relativePath, reason: operation.reason || 'Sync conflict' };
+
+    // Folders and file/folder clashes are left for the user
+    if (this.job.conflictResolution === 'skip' || sourceFile.type !== 'file' || destFile?.type !== 'file') {
+      await this.engine.recordSyncConflict(this.job.id, { ...conflict, resolution: 'skipped' });
+      logger.warn(`Sync conflict skipped in ${this.job.id}: ${operation.relativePath} (${conflict.reason})`);
+      return undefined;
+    }
+
+    const sourceWins = !sourceFile.modifiedAt || !destFile.modifiedAt ||
+      !ModifiedTime.isNewer(destFile.modifiedAt, sourceFile.modifiedAt);
+
+    const copy: SyncOperation = {
+      type: sourceWins ? 'upload' : 'download',
+      relativePath: operation.relativePath,
+      sourcePath: sourceWins ? operation.sourcePath : operation.destinationPath,
+      destinationPath: sourceWins ? operation.destinationPath : operation.sourcePath,
+      file: sourceWins ? sourceFile : destFile,
+      direction: sourceWins ? 'source_to_dest' : 'dest_to_source',
+      overwrite: true,
+      targetExists: true
+    };
+
+    const conflictCopyPath = this.job.conflictResolution === 'rename'
+      ? await this.keepConflictCopy(copy)
+      : undefined;
+
+    const written = (await this.executeOperation({ ...copy, backedUp: !!conflictCopyPath }))!;
+
+    await this.engine.recordSyncConflict(this.job.id, {
+      ...conflict,
+      resolution: conflictCopyPath ? 'renamed' : 'overwritten',
+      keptSide: sourceWins ? 'source' : 'destination',
+      conflictCopyPath
+    });
+
+    return { operation: copy, written };
+  }
+
+  /**
+   * A copy found its target already there. With 'rename' the target is kept
+   * as a conflict copy and the copy retried; otherwise it is skipped.
+   */
+  private async resolveExistingTarget(operation: SyncOperation): Promise<FileItem | undefined> {
+    const conflict = { relativePath: operation.relativePath, reason: 'target already exists' };
+
+    if (this.job.conflictResolution !== 'rename') {
+      await this.engine.recordSyncConflict(this.job.id, { ...conflict, resolution: 'skipped' });
+      return undefined;
+    }
+
+    const conflictCopyPath = await this.keepConflictCopy(operation);
+    const written = await this.executeOperation({ ...operation, overwrite: true, backedUp: true });
+
+    await this.engine.recordSyncConflict(this.job.id, {
+      ...conflict,
+      resolution: 'renamed',
+      keptSide: operation.direction === 'source_to_dest' ? 'source' : 'destination',
+      conflictCopyPath
+    });
+
+    return written;
+  }
+
+  /**
+   * Keep the version a copy is about to replace under a conflict name in
+   * the same folder. Returns the conflict copy's path.
+   */
+  private async keepConflictCopy(copy: SyncOperation): Promise<string> {
+    const losingSide = copy.direction === 'source_to_dest' ? 'destination' : 'source';
+    const provider = losingSide === 'destination' ? this.destProvider! : this.sourceProvider!;
+    const path = copy.destinationPath;
+
+    const conflictName = ConflictName.build(
+      posix.basename(path),
+      { provider: losingSide === 'destination' ? this.destName : this.sourceName, date: new Date() },
+      this.job.options?.conflictNamePattern
+    );
+    const conflictPath = posix.join(posix.dirname(path), conflictName);
+
+    if (provider.capabilities.supportsMove) {
+      await provider.moveFile(path, conflictPath);
+    } else if (provider.capabilities.supportsCopy) {
+      await provider.copyFile(path, conflictPath);
+    } else {
+      const stream = await provider.downloadFile(path);
+      await provider.uploadFile(conflictPath, stream, { overwrite: false });
+    }
+
+    logger.info(`Kept conflicting ${losingSide} version of ${copy.relativePath} as ${conflictPath}`);
+    return conflictPath;
+  }
+
+  /**
+   * Run one operation. Copies resolve to the file as stored.
+   */
+  private async executeOperation(operation: SyncOperation): Promise<FileItem | undefined> {
     switch (operation.type) {
       case 'upload':
-        await this.uploadFile(operation);
-        break;
+        if (this.replacesTarget(operation)) {
+          await this.backUpTarget(operation);
+        }
+        return await this.uploadFile(operation);
       case 'download':
-        await this.downloadFile(operation);
-        break;
+        return await this.downloadFile(operation);
       case 'delete':
-        await this.deleteFile(operation);
-        break;
+        // A target moved into the backup folder is already gone
+        if (!(await this.backUpTarget(operation))) {
+          await this.deleteFile(operation);
+        }
+        return undefined;
+      case 'create_folder':
+        await this.createFolder(operation);
+        return undefined;
+      case 'move':
+        return await this.moveFile(operation);
+      case 'conflict':
+        await this.resolveConflict(operation);
+        return undefined;
     }
   }
 
-  private async uploadFile(operation: SyncOperation): Promise<void> {
-    const stream = await this.sourceProvider!.downloadFile(operation.sourcePath);
-    await this.destProvider!.uploadFile(operation.destinationPath, stream, {
-      fileSize: operation.file.size,
-      mimeType: operation.file.mimeType,
-      overwrite: this.job.conflictResolution === 'overwrite'
-    });
+  /**
+   * Whether a copy writes over an existing target instead of failing on it
+   */
+  private replacesTarget(operation: SyncOperation): boolean {
+    return !!operation.targetExists && !operation.backedUp &&
+      (!!operation.overwrite || this.job.conflictResolution === 'overwrite');
+  }
+
+  /**
+   * Move the destination's current version of a path into the job's backup
+   * folder, date-stamped, before it is replaced or deleted. A failed backup
+   * fails the operation so nothing is lost. Resolves to whether the target
+   * was moved away rather than copied.
+   */
+  private async backUpTarget(operation: SyncOperation): Promise<boolean> {
+    const backupPath = this.job.options?.backupPath;
+    if (!backupPath || operation.direction !== 'source_to_dest' || operation.backedUp) return false;
+
+    const provider = this.destProvider!;
+    const path = operation.destinationPath;
+    const folder = FileTreeWalker.joinPath(backupPath, posix.dirname(operation.relativePath));
+    const versionPath = posix.join(folder, BackupVersion.build(posix.basename(path), new Date()));
+
+    await this.ensureBackupFolder(provider, folder);
+
+    const moved = provider.capabilities.supportsMove;
+
+    if (moved) {
+      await provider.moveFile(path, versionPath);
+    } else if (provider.capabilities.supportsCopy) {
+      await provider.copyFile(path, versionPath);
+    } else if (operation.file.type === 'folder') {
+      // Copy the folder's contents one file at a time
+      await this.ensureBackupFolder(provider, versionPath);
+
+      for (const entry of await FileTreeWalker.walk(provider, path)) {
+        const entryPath = FileTreeWalker.joinPath(versionPath, entry.relativePath);
+
+        if (entry.file.type === 'folder') {
+          await this.ensureBackupFolder(provider, entryPath);
+        } else {
+          const stream = await provider.downloadFile(entry.file.path);
+          await provider.uploadFile(entryPath, stream, { fileSize: entry.file.size, overwrite: false });
+        }
+      }
+    } else {
+      const stream = await provider.downloadFile(path);
+      await provider.uploadFile(versionPath, stream, { fileSize: operation.file.size, overwrite: false });
+    }
+
+    logger.info(`Backed up ${operation.relativePath} to ${versionPath}`);
+    return moved;
+  }
+
+  /**
+   * Create a backup folder and any missing parents
+   */
+  private async ensureBackupFolder(provider: ICloudProvider, path: string): Promise<void> {
+    if (this.backupFolders.has(path) || path === '/' || path === '.') return;
+
+    const existing = await provider.getFileInfo(path).catch(() => null);
+    if (!existing) {
+      await this.ensureBackupFolder(provider, posix.dirname(path));
+      await provider.createFolder(path);
+    } else if (existing.type !== 'folder') {
+      throw new Error(`Backup path ${path} is not a folder`);
+    }
+
+    this.backupFolders.add(path);
+  }
+
+  /**
+   * Delete backed-up versions outside the job's retention policy. Pruning
+   * problems are logged and don't fail the run.
+   */
+  private async pruneBackups(): Promise<void> {
+    const { backupPath, backupRetentionDays, backupMaxVersions } = this.job.options || {};
+    if (!backupPath || (!backupRetentionDays && !backupMaxVersions) || this.stopped) return;
+
+    try {
+      const provider = this.destProvider!;
+      const existing = await provider.getFileInfo(backupPath).catch(() => null);
+      if (!existing) return;
+
+      const expired = BackupVersion.selectExpired(
+        await FileTreeWalker.walk(provider, backupPath, { shouldStop: () => this.stopped }),
+        { retentionDays: backupRetentionDays, maxVersions: backupMaxVersions }
+      );
+
+      for (const entry of expired) {
+        if (this.stopped) break;
+        await provider.deleteFile(entry.file.path);
+      }
+
+      if (expired.length > 0) {
+        logger.info(`Pruned ${expired.length} backed-up versions of sync ${this.job.id}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to prune backups of sync ${this.job.id}:`, error);
+    }
   }
 
-  private async downloadFile(operation: SyncOperation): Promise<void> {
-    const stream = await this.destProvider!.downloadFile(operation.sourcePath);
-    await this.sourceProvider!.uploadFile(operation.destinationPath, stream, {
+  private isInBackupFolder(path: string): boolean {
+    const backupPath = this.job.options?.backupPath;
+    if (!backupPath) return false;
+
+    const folder = posix.normalize(backupPath).replace(/\/$/, '');
+    const normalized = posix.normalize(path);
+    return normalized === folder || normalized.startsWith(`${folder}/`);
+  }
+
+  private async createFolder(operation: SyncOperation): Promise<void> {
+    const provider = operation.direction === 'source_to_dest' ? this.destProvider! : this.sourceProvider!;
+
+    try {
+      await provider.createFolder(operation.destinationPath);
+    } catch (error) {
+      // Providers report existing folders differently, so check directly
+      const existing = await provider.getFileInfo(operation.destinationPath).catch(() => null);
+      if (!existing || existing.type !== 'folder') {
+        throw error;
+      }
+    }
+  }
+
+  private async uploadFile(operation: SyncOperation): Promise<FileItem> {
+    return this.copyFile(this.sourceProvider!, this.destProvider!, operation);
+  }
+
+  private async downloadFile(operation: SyncOperation): Promise<FileItem> {
+    return this.copyFile(this.destProvider!, this.sourceProvider!, operation);
+  }
+
+  private async copyFile(from: ICloudProvider, to: ICloudProvider, operation: SyncOperation): Promise<FileItem> {
+    const preserveTimestamps = this.job.options?.preserveTimestamps && !!operation.file.modifiedAt;
+
+    const stream = await from.downloadFile(operation.sourcePath);
+    const uploaded = await to.uploadFile(operation.destinationPath, stream, {
       fileSize: operation.file.size,
       mimeType: operation.file.mimeType,
-      overwrite: this.job.conflictResolution === 'overwrite'
+      overwrite: operation.overwrite || this.job.conflictResolution === 'overwrite',
+      preserveTimestamps,
+      modifiedAt: preserveTimestamps ? new Date(operation.file.modifiedAt!) : undefined
     });
+
+    if (!preserveTimestamps) return uploaded;
+
+    // A copy without the original time only makes mtime comparison unusable,
+    // so it is not treated as a failed operation
+    try {
+      if (await ModifiedTime.preserve(to, operation.destinationPath, uploaded, operation.file.modifiedAt!)) {
+        return { ...uploaded, modifiedAt: operation.file.modifiedAt };
+      }
+    } catch (error) {
+      logger.warn(`Failed to preserve modification time of ${operation.destinationPath}:`, error);
+    }
+
+    return uploaded;
+  }
+
+  private async moveFile(operation: SyncOperation): Promise<FileItem> {
+    const provider = operation.direction === 'source_to_dest' ? this.destProvider! : this.sourceProvider!;
+    return provider.moveFile(operation.movedFrom!.path, operation.destinationPath);
   }
 
   private async deleteFile(operation: SyncOperation): Promise<void> {
-    await this.destProvider!.deleteFile(operation.destinationPath);
+    const provider = operation.direction === 'source_to_dest' ? this.destProvider! : this.sourceProvider!;
+    await provider.deleteFile(operation.destinationPath);
   }
 
   private shouldUpdateFile(file1: FileItem, file2: FileItem): boolean {
+    const compareMode = this.getCompareMode();
+
+    if (compareMode === 'size') {
+      return file1.size !== file2.size;
+    }
+
+    // Hashes are only missing when they couldn't be computed
+    if (this.usesChecksums() && file1.checksum && file2.checksum) {
+      return file1.size !== file2.size || !ChecksumService.matches(file1.checksum, file2.checksum);
+    }
+
     // Compare modification times
-    if (file1.modifiedAt && file2.modifiedAt) {
-      return file1.modifiedAt > file2.modifiedAt;
+    if (file1.modifiedAt && file2.modifiedAt && this.keepsModifiedTimes()) {
+      return ModifiedTime.isNewer(file1.modifiedAt, file2.modifiedAt);
     }
     
     // Compare file sizes if no modification time
@@ -872,14 +2571,18 @@ class SyncExecution {
     return false;
   }
 
-  private buildDestinationPath(sourcePath: string): string {
-    const relativePath = sourcePath.replace(this.job.sourcePath, '');
-    return this.job.destinationPath + relativePath;
-  }
+  /**
+   * A copy that didn't keep its original's time looks newer than it. One-way
+   * syncs still work with that, since only a later source change makes the
+   * source newer again, but two-way syncs would copy every file back. They
+   * compare size and checksum instead unless both sides keep times.
+   */
+  private keepsModifiedTimes(): boolean {
+    if (this.job.syncMode !== 'two_way') return true;
 
-  private buildSourcePath(destPath: string): string {
-    const relativePath = destPath.replace(this.job.destinationPath, '');
-    return this.job.sourcePath + relativePath;
+    return !!this.job.options?.preserveTimestamps &&
+      this.sourceProvider!.capabilities.supportsModifiedTime &&
+      this.destProvider!.capabilities.supportsModifiedTime;
   }
 }
 
@@ -0,0 +1,277 @@
+import { createHash } from 'crypto';
+import { syncEngine } from './SyncEngine';
+import { queueManager } from './QueueManager';
+import { ICloudProvider } from '../providers/ICloudProvider';
+import { FileTreeWalker } from '../utils/fileTree';
+import { ChangeFeed } from '../utils/changeFeed';
+import { FileItem, SyncJob } from '../types';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.errors({ stack: true }),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.simple()
+    })
+  ]
+});
+
+const DEFAULT_WATCH_INTERVAL = parseInt(process.env.SYNC_WATCH_INTERVAL || '60'); // seconds
+const DEFAULT_WATCH_DEBOUNCE = parseInt(process.env.SYNC_WATCH_DEBOUNCE || '30'); // seconds
+const MIN_WATCH_INTERVAL = 10; // seconds
+const MAX_DEBOUNCE_MULTIPLE = 10; // a run waits at most this many debounce times for changes to stop
+
+// One side of a watched job and what was last seen of it
+interface WatchedSide {
+  cloudProviderId: string;
+  rootPath: string;
+  provider?: ICloudProvider;
+  cursor?: string; // change feed position
+  files?: FileItem[]; // entries as of the cursor, for feeds that compare listings
+  fingerprint?: string; // hash of the last listing, for providers without a change feed
+}
+
+interface WatchedJob {
+  job: SyncJob;
+  sides: WatchedSide[];
+  timer: NodeJS.Timeout;
+  debounceTimer?: NodeJS.Timeout;
+  changedSince?: number; // when the first change not yet queued was noticed
+  checking: boolean;
+}
+
+/**
+ * Runs continuous sync jobs shortly after their files change. Each job is
+ * checked every watchInterval seconds, through the provider's change feed
+ * or by comparing listings, and a run is queued once no further changes
+ * came in for watchDebounce seconds.
+ */
+export class SyncWatcher {
+  private watched = new Map<string, WatchedJob>();
+  private started = false;
+
+  public async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    syncEngine.on('syncJobCreated', this.handleJobChange);
+    syncEngine.on('syncJobUpdated', this.handleJobChange);
+    syncEngine.on('syncJobDeleted', this.unwatch);
+
+    const jobs = await syncEngine.getContinuousSyncJobs();
+    jobs.forEach(job => this.watch(job));
+
+    logger.info(`Watching ${jobs.length} continuous sync jobs`);
+  }
+
+  public stop(): void {
+    syncEngine.off('syncJobCreated', this.handleJobChange);
+    syncEngine.off('syncJobUpdated', this.handleJobChange);
+    syncEngine.off('syncJobDeleted', this.unwatch);
+
+    for (const jobId of [...this.watched.keys()]) {
+      this.unwatch(jobId);
+    }
+
+    this.started = false;
+  }
+
+  /**
+   * Follow jobs being turned continuous or back, and reconfigured
+   */
+  private handleJobChange = (job: SyncJob): void => {
+    const watched = this.watched.get(job.id);
+
+    if (!job.isActive || !job.options?.continuous) {
+      this.unwatch(job.id);
+      return;
+    }
+
+    if (!watched || this.watchKey(watched.job) !== this.watchKey(job)) {
+      this.unwatch(job.id);
+      this.watch(job);
+      return;
+    }
+
+    watched.job = job;
+  };
+
+  private watch(job: SyncJob): void {
+    const interval = Math.max(MIN_WATCH_INTERVAL, job.options?.watchInterval || DEFAULT_WATCH_INTERVAL);
+
+    // Only two-way syncs act on changes to the destination
+    const sides: WatchedSide[] = [{ cloudProviderId: job.sourceCloudId, rootPath: job.sourcePath }];
+    if (job.syncMode === 'two_way') {
+      sides.push({ cloudProviderId: job.destinationCloudId, rootPath: job.destinationPath });
+    }
+
+    const watched: WatchedJob = {
+      job,
+      sides,
+      timer: setInterval(() => this.check(watched), interval * 1000),
+      checking: false
+    };
+    watched.timer.unref();
+
+    this.watched.set(job.id, watched);
+    logger.info(`Watching sync job ${job.id} every ${interval}s`);
+
+    // The first check only records where the files stand
+    this.check(watched);
+  }
+
+  private unwatch = (jobId: string): void => {
+    const watched = this.watched.get(jobId);
+    if (!watched) return;
+
+    clearInterval(watched.timer);
+    if (watched.debounceTimer) {
+      clearTimeout(watched.debounceTimer);
+    }
+
+    this.watched.delete(jobId);
+    logger.info(`Stopped watching sync job ${jobId}`);
+  };
+
+  private async check(watched: WatchedJob): Promise<void> {
+    // Sides keep what was seen before a run until it is over, so the next
+    // check catches changes made while it ran. The run's own writes to a
+    // watched side queue one more run, which finds nothing left to do. Only
+    // a run in this process counts: a 'running' status can be left over from
+    // a crash, and runs elsewhere turn away the runs queued here.
+    if (watched.checking || syncEngine.isSyncRunning(watched.job.id)) {
+      return;
+    }
+
+    watched.checking = true;
+
+    try {
+      let changed = false;
+      for (const side of watched.sides) {
+        // Every side is checked so each knows where it stands
+        changed = (await this.checkSide(watched.job, side)) || changed;
+      }
+
+      if (changed && this.watched.get(watched.job.id) === watched) {
+        this.debounce(watched);
+      }
+    } catch (error) {
+      logger.warn(`Failed to check sync job ${watched.job.id} for changes:`, error);
+
+      // Connect again on the next check
+      watched.sides.forEach(side => {
+        side.provider = undefined;
+      });
+    } finally {
+      watched.checking = false;
+    }
+  }
+
+  /**
+   * Whether a side changed since it was last checked
+   */
+  private async checkSide(job: SyncJob, side: WatchedSide): Promise<boolean> {
+    if (!side.provider) {
+      side.provider = (await syncEngine.connectProvider(side.cloudProviderId)).provider;
+    }
+
+    const provider = side.provider;
+
+    // Only what a run would list counts, like the walk in SyncEngine.loadTrees
+    const walkOptions = { filters: job.filters, maxDepth: job.options?.maxSyncDepth };
+
+    if (provider.getChanges) {
+      const known = side.cursor !== undefined;
+      let changed = false;
+      let hasMore = true;
+
+      while (hasMore) {
+        const changeSet = await provider.getChanges(side.rootPath, side.cursor, { ...walkOptions, files: side.files });
+
+        // A cursor the provider no longer takes says nothing about what changed
+        changed = changed || (known && (changeSet.reset || changeSet.changes.length > 0));
+        side.files = ChangeFeed.apply(changeSet.reset ? [] : side.files || [], changeSet.changes);
+        side.cursor = changeSet.cursor;
+        hasMore = changeSet.hasMore;
+      }
+
+      return changed;
+    }
+
+    const entries = await FileTreeWalker.walk(provider, side.rootPath, walkOptions);
+
+    const fingerprint = createHash('sha1')
+      .update(JSON.stringify(entries.map(({ relativePath, file }) => [
+        relativePath,
+        file.type,
+        file.size,
+        file.modifiedAt ? new Date(file.modifiedAt).getTime() : null,
+        file.checksum
+      ])))
+      .digest('hex');
+
+    const changed = side.fingerprint !== undefined && side.fingerprint !== fingerprint;
+    side.fingerprint = fingerprint;
+    return changed;
+  }
+
+  /**
+   * Queue a run once changes stop coming in, postponing it while they
+   * continue, up to a limit
+   */
+  private debounce(watched: WatchedJob): void {
+    const debounce = (watched.job.options?.watchDebounce ?? DEFAULT_WATCH_DEBOUNCE) * 1000;
+    const now = Date.now();
+
+    watched.changedSince = watched.changedSince ?? now;
+    if (watched.debounceTimer) {
+      clearTimeout(watched.debounceTimer);
+    }
+
+    const delay = Math.max(0, Math.min(debounce, watched.changedSince + debounce * MAX_DEBOUNCE_MULTIPLE - now));
+    watched.debounceTimer = setTimeout(() => this.queueRun(watched), delay);
+    watched.debounceTimer.unref();
+  }
+
+  private async queueRun(watched: WatchedJob): Promise<void> {
+    const { job } = watched;
+    watched.debounceTimer = undefined;
+    watched.changedSince = undefined;
+
+    try {
+      // A waiting run takes in every change so far, so one per job is enough
+      await queueManager.addSyncJob(
+        { syncJobId: job.id, userId: job.userId, trigger: 'watch' },
+        { jobId: `watch-${job.id}`, removeOnComplete: true, removeOnFail: true }
+      );
+
+      logger.info(`Queued sync job ${job.id} after changes were noticed`);
+    } catch (error) {
+      logger.error(`Failed to queue sync job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Settings whose change means the job has to be watched afresh
+   */
+  private watchKey(job: SyncJob): string {
+    return JSON.stringify([
+      job.sourceCloudId,
+      job.destinationCloudId,
+      job.sourcePath,
+      job.destinationPath,
+      job.syncMode,
+      job.filters,
+      job.options?.maxSyncDepth,
+      job.options?.watchInterval
+    ]);
+  }
+}
+
+// Export singleton instance
+export const syncWatcher = new SyncWatcher();
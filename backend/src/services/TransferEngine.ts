@@ -1,10 +1,28 @@
 import { v4 as uuidv4 } from 'uuid';
 import { EventEmitter } from 'events';
-import { PassThrough, Readable } from 'stream';
-import { TransferJob, TransferStatus, FileItem, TransferProgress, TransferOptions } from '../types';
+import { posix } from 'path';
+import { Readable, Transform } from 'stream';
+import {
+  TransferJob,
+  TransferStatus,
+  FileItem,
+  FileTreeEntry,
+  FileTransferLog,
+  FileRetryAttempt,
+  TransferProgress,
+  TransferOptions,
+  ChecksumAlgorithm
+} from '../types';
 import { query } from '../database/connection';
 import { cloudProviderFactory } from '../providers/CloudProviderFactory';
 import { ICloudProvider } from '../providers/ICloudProvider';
+import { CloudProviderError, IntegrityError } from '../providers/errors';
+import { FileTreeWalker } from '../utils/fileTree';
+import { ChecksumService } from '../utils/checksum';
+import { ModifiedTime } from '../utils/modifiedTime';
+import { RetryPolicy } from '../utils/retryPolicy';
+import { JobLease, JobLeaseError } from '../utils/jobLease';
+import { bandwidthManager, BandwidthLimiter } from './BandwidthManager';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -29,6 +47,7 @@ export interface CreateTransferJobRequest {
   destinationPath: string;
   filters?: any;
   options?: TransferOptions;
+  parentTransferId?: string;
 }
 
 export interface TransferJobUpdate {
@@ -44,9 +63,21 @@ export interface TransferJobUpdate {
   errorMessage?: string;
 }
 
+// Upper bound for TransferOptions.parallelTransfers
+const MAX_PARALLEL_TRANSFERS = parseInt(process.env.MAX_PARALLEL_FILE_TRANSFERS || '8');
+
+// How often an in-flight resumable upload session is written to its checkpoint
+const UPLOAD_SESSION_CHECKPOINT_MS = 5000;
+
+type FileCheckpoint = Omit<
+  FileTransferLog,
+  'id' | 'transferJobId' | 'syncJobId' | 'filePath' | 'fileSize' | 'createdAt' | 'updatedAt'
+>;
+
 export class TransferEngine extends EventEmitter {
   private activeTransfers = new Map<string, TransferExecution>();
   private readonly maxConcurrentTransfers: number;
+  private heartbeat?: NodeJS.Timeout;
 
   constructor() {
     super();
@@ -68,8 +99,8 @@ export class TransferEngine extends EventEmitter {
         `INSERT INTO transfer_jobs (
           id, user_id, source_cloud_id, destination_cloud_id,
           source_path, destination_path, status, filters, options,
-          created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          parent_transfer_id, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
         RETURNING *`,
         [
           jobId,
@@ -81,6 +112,7 @@ export class TransferEngine extends EventEmitter {
           'pending',
           JSON.stringify(request.filters || {}),
           JSON.stringify(request.options || {}),
+          request.parentTransferId || null,
           now,
           now
         ]
@@ -100,6 +132,55 @@ export class TransferEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Create a child job that re-runs only the files that failed in a
+   * finished transfer. The files are seeded as pending checkpoints of the
+   * new job, which runs them instead of walking the source tree.
+   */
+  public async createRetryTransfer(jobId: string): Promise<TransferJob> {
+    try {
+      const job = await this.getTransferJob(jobId);
+      if (!job) {
+        throw new Error('Transfer job not found');
+      }
+
+      if (['pending', 'running', 'paused'].includes(job.status)) {
+        throw new Error(`Cannot retry transfer with status: ${job.status}`);
+      }
+
+      const failedFiles = await this.getFailedFiles(jobId);
+      if (failedFiles.length === 0) {
+        throw new Error('Transfer has no failed files to retry');
+      }
+
+      const retryJob = await this.createTransferJob({
+        userId: job.userId,
+        sourceCloudId: job.sourceCloudId,
+        destinationCloudId: job.destinationCloudId,
+        sourcePath: job.sourcePath,
+        destinationPath: job.destinationPath,
+        filters: job.filters,
+        options: job.options,
+        parentTransferId: job.id
+      });
+
+      for (const file of failedFiles) {
+        await this.recordFileLog(retryJob.id, {
+          filePath: file.filePath,
+          fileSize: file.fileSize,
+          status: 'pending'
+        });
+      }
+
+      logger.info(`Retry transfer created: ${retryJob.id} for ${failedFiles.length} files of ${jobId}`);
+
+      return retryJob;
+    } catch (error) {
+      logger.error(`Failed to create retry for transfer ${jobId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Start a transfer job
    */
@@ -125,12 +206,23 @@ export class TransferEngine extends EventEmitter {
         throw new Error(`Cannot start transfer with status: ${job.status}`);
       }
 
-      // Update status to running
-      await this.updateTransferJob(jobId, { status: 'running' });
-
-      // Create transfer execution
-      const execution = new TransferExecution(job, this);
-      this.activeTransfers.set(jobId, execution);
+      // Claim the job so no other instance runs it at the same time
+      await JobLease.acquire('transfer_jobs', jobId);
+      this.startHeartbeat();
+
+      let execution: TransferExecution;
+      try {
+        // Update status to running
+        await this.updateTransferJob(jobId, { status: 'running' });
+
+        // Create transfer execution
+        execution = new TransferExecution(job, this);
+        this.activeTransfers.set(jobId, execution);
+      } catch (error) {
+        // A transfer that never started doesn't keep its lease
+        await JobLease.release('transfer_jobs', jobId).catch(() => undefined);
+        throw error;
+      }
 
       // Start the transfer
       execution.start();
@@ -139,6 +231,12 @@ export class TransferEngine extends EventEmitter {
 
     } catch (error) {
       logger.error(`Failed to start transfer ${jobId}:`, error);
+
+      // The job belongs to another instance, leave it alone
+      if (error instanceof JobLeaseError) {
+        throw error;
+      }
+
       await this.updateTransferJob(jobId, {
         status: 'failed',
         errorMessage: error instanceof Error ? error.message : 'Unknown error'
@@ -197,6 +295,7 @@ export class TransferEngine extends EventEmitter {
       if (execution) {
         await execution.cancel();
         this.activeTransfers.delete(jobId);
+        await JobLease.release('transfer_jobs', jobId);
       }
 
       await this.updateTransferJob(jobId, { status: 'cancelled' });
@@ -262,7 +361,7 @@ export class TransferEngine extends EventEmitter {
         [...params, limit, offset]
       );
 
-      const jobs = jobsResult.rows.map(row => this.mapDbRowToTransferJob(row));
+      const jobs = jobsResult.rows.map((row: any) => this.mapDbRowToTransferJob(row));
 
       return { jobs, total };
     } catch (error) {
@@ -329,6 +428,7 @@ export class TransferEngine extends EventEmitter {
 
       // Remove from active transfers
       this.activeTransfers.delete(jobId);
+      await JobLease.release('transfer_jobs', jobId);
 
       logger.info(`Transfer ${success ? 'completed' : 'failed'}: ${jobId}`);
 
@@ -338,6 +438,131 @@ export class TransferEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Record the state of a single file in file_transfer_logs. There is one
+   * row per file and job, so later states overwrite earlier ones.
+   */
+  public async recordFileLog(
+    jobId: string,
+    log: Omit<FileTransferLog, 'id' | 'transferJobId' | 'syncJobId' | 'createdAt' | 'updatedAt'>
+  ): Promise<void> {
+    try {
+      await query(
+        `INSERT INTO file_transfer_logs (
+          transfer_job_id, file_path, file_size, status, error_message, error_code, source_checksum,
+          destination_checksum, transferred_at, source_deleted_at, upload_session, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+        ON CONFLICT (transfer_job_id, file_path) WHERE transfer_job_id IS NOT NULL DO UPDATE SET
+          file_size = COALESCE(EXCLUDED.file_size, file_transfer_logs.file_size),
+          status = EXCLUDED.status,
+          error_message = EXCLUDED.error_message,
+          error_code = EXCLUDED.error_code,
+          source_checksum = COALESCE(EXCLUDED.source_checksum, file_transfer_logs.source_checksum),
+          destination_checksum = COALESCE(EXCLUDED.destination_checksum, file_transfer_logs.destination_checksum),
+          transferred_at = COALESCE(EXCLUDED.transferred_at, file_transfer_logs.transferred_at),
+          source_deleted_at = COALESCE(EXCLUDED.source_deleted_at, file_transfer_logs.source_deleted_at),
+          upload_session = EXCLUDED.upload_session,
+          updated_at = NOW()`,
+        [
+          jobId,
+          log.filePath,
+          log.fileSize ?? null,
+          log.status,
+          log.errorMessage || null,
+          log.errorCode || null,
+          log.sourceChecksum || null,
+          log.destinationChecksum || null,
+          log.transferredAt || null,
+          log.sourceDeletedAt || null,
+          log.uploadSession ? JSON.stringify(log.uploadSession) : null
+        ]
+      );
+    } catch (error) {
+      logger.error(`Failed to record file log for transfer ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Append a failed attempt to a file's retry history
+   */
+  public async recordFileRetry(jobId: string, filePath: string, retry: FileRetryAttempt): Promise<void> {
+    try {
+      await query(
+        `UPDATE file_transfer_logs
+         SET retry_count = $3,
+             retry_history = COALESCE(retry_history, '[]'::jsonb) || $4::jsonb,
+             updated_at = NOW()
+         WHERE transfer_job_id = $1 AND file_path = $2`,
+        [jobId, filePath, retry.attempt, JSON.stringify([retry])]
+      );
+    } catch (error) {
+      logger.error(`Failed to record retry for ${filePath} of transfer ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the recorded file states of a transfer job
+   */
+  public async getFileLogs(jobId: string): Promise<FileTransferLog[]> {
+    try {
+      const result = await query(
+        'SELECT * FROM file_transfer_logs WHERE transfer_job_id = $1 ORDER BY created_at',
+        [jobId]
+      );
+
+      return result.rows.map((row: any) => this.mapDbRowToFileTransferLog(row));
+    } catch (error) {
+      logger.error(`Failed to get file logs for transfer ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the files that failed in a transfer job, with their error codes
+   */
+  public async getFailedFiles(jobId: string): Promise<FileTransferLog[]> {
+    const logs = await this.getFileLogs(jobId);
+    return logs.filter(log => log.status === 'failed');
+  }
+
+  /**
+   * Drop a transfer that stopped without finishing (paused or cancelled).
+   * Its status was already set by pauseTransfer/cancelTransfer.
+   */
+  public async releaseTransfer(jobId: string): Promise<void> {
+    this.activeTransfers.delete(jobId);
+    await JobLease.release('transfer_jobs', jobId);
+  }
+
+  /**
+   * Reset jobs left 'running' by an instance that died so they can be
+   * queued again. Jobs with a live lease belong to another instance and are
+   * left alone; finished files are skipped on the next run via checkpoints.
+   */
+  public async reclaimInterruptedTransfers(): Promise<TransferJob[]> {
+    try {
+      const result = await query(
+        `UPDATE transfer_jobs
+         SET status = 'pending', lease_owner = NULL, lease_expires_at = NULL, updated_at = NOW()
+         WHERE status = 'running' AND ${JobLease.UNLEASED_CONDITION}
+         RETURNING *`
+      );
+
+      const jobs = result.rows.map((row: any) => this.mapDbRowToTransferJob(row));
+
+      for (const job of jobs) {
+        logger.warn(`Reclaimed interrupted transfer: ${job.id}`);
+      }
+
+      return jobs;
+    } catch (error) {
+      logger.error('Failed to reclaim interrupted transfers:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get active transfer count
    */
@@ -355,6 +580,26 @@ export class TransferEngine extends EventEmitter {
 
   // Private helper methods
 
+  /**
+   * Keep the leases of running transfers alive; stops once none are left
+   */
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+
+    this.heartbeat = setInterval(() => {
+      if (this.activeTransfers.size === 0) {
+        clearInterval(this.heartbeat!);
+        this.heartbeat = undefined;
+        return;
+      }
+
+      JobLease.renew('transfer_jobs', Array.from(this.activeTransfers.keys()))
+        .catch(error => logger.error('Failed to renew transfer leases:', error));
+    }, JobLease.HEARTBEAT_INTERVAL_MS);
+
+    this.heartbeat.unref();
+  }
+
   private async validateCloudProviders(sourceId: string, destinationId: string): Promise<void> {
     const sourceResult = await query(
       'SELECT * FROM cloud_providers WHERE id = $1 AND is_active = true',
@@ -395,6 +640,7 @@ export class TransferEngine extends EventEmitter {
       filters: row.filters ? JSON.parse(row.filters) : undefined,
       options: row.options ? JSON.parse(row.options) : undefined,
       errorMessage: row.error_message,
+      parentTransferId: row.parent_transfer_id || undefined,
       startedAt: row.started_at,
       completedAt: row.completed_at,
       createdAt: row.created_at,
@@ -402,6 +648,28 @@ export class TransferEngine extends EventEmitter {
     };
   }
 
+  private mapDbRowToFileTransferLog(row: any): FileTransferLog {
+    return {
+      id: row.id,
+      transferJobId: row.transfer_job_id,
+      syncJobId: row.sync_job_id,
+      filePath: row.file_path,
+      fileSize: row.file_size !== null ? Number(row.file_size) : undefined,
+      status: row.status,
+      errorMessage: row.error_message,
+      errorCode: row.error_code || undefined,
+      sourceChecksum: row.source_checksum,
+      destinationChecksum: row.destination_checksum,
+      transferredAt: row.transferred_at,
+      sourceDeletedAt: row.source_deleted_at,
+      uploadSession: row.upload_session || undefined,
+      retryCount: row.retry_count || 0,
+      retryHistory: row.retry_history || [],
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
   private camelToSnakeCase(str: string): string {
     return str.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
   }
@@ -417,8 +685,15 @@ class TransferExecution {
   private destProvider?: ICloudProvider;
   private cancelled = false;
   private paused = false;
+  private fatalError?: Error;
   private startTime?: Date;
   private progress: TransferProgress;
+  private activeStreams = new Set<Readable>();
+  private progressWrite: Promise<void> = Promise.resolve();
+  private checkpoints = new Map<string, FileTransferLog>();
+  private checkpointWrites = new Map<string, Promise<void>>();
+  private resumedBytes = 0;
+  private bandwidth?: BandwidthLimiter;
 
   constructor(job: TransferJob, engine: TransferEngine) {
     this.job = job;
@@ -445,6 +720,7 @@ class TransferExecution {
       
       // Initialize providers
       await this.initializeProviders();
+      await this.initializeBandwidth();
 
       // Start transfer process
       await this.processTransfer();
@@ -456,6 +732,8 @@ class TransferExecution {
         false,
         error instanceof Error ? error.message : 'Unknown error'
       );
+    } finally {
+      this.bandwidth?.release();
     }
   }
 
@@ -465,12 +743,29 @@ class TransferExecution {
 
   public async cancel(): Promise<void> {
     this.cancelled = true;
+
+    // Abort in-flight files instead of waiting for them to finish
+    for (const stream of this.activeStreams) {
+      stream.destroy(new Error('Transfer cancelled'));
+    }
   }
 
   public getProgress(): TransferProgress {
     return { ...this.progress };
   }
 
+  private async initializeBandwidth(): Promise<void> {
+    const result = await query(
+      'SELECT subscription_tier FROM users WHERE id = $1',
+      [this.job.userId]
+    );
+
+    this.bandwidth = bandwidthManager.createLimiter(
+      this.job,
+      result.rows[0]?.subscription_tier || 'free'
+    );
+  }
+
   private async initializeProviders(): Promise<void> {
     // Get cloud provider configs from database
     const sourceResult = await query(
@@ -519,22 +814,60 @@ class TransferExecution {
     }
 
     try {
-      // List files to transfer
-      const filesToTransfer = await this.sourceProvider.listFiles(
-        this.job.sourcePath,
-        this.job.filters
+      // Walk the full source tree, or only the seeded files of a retry
+      const maxDepth = this.job.filters?.folderDepth;
+      const entries = this.job.parentTransferId
+        ? await this.collectRetryEntries()
+        : await FileTreeWalker.walk(this.sourceProvider, this.job.sourcePath, {
+          filters: this.job.filters,
+          maxDepth,
+          shouldStop: () => this.cancelled || this.paused
+        });
+
+      // Folders at the depth limit were not descended into, so don't recreate them empty
+      const folders = entries.filter(entry =>
+        entry.file.type === 'folder' && (maxDepth === undefined || entry.depth < maxDepth)
       );
-
-      this.progress.filesTotal = filesToTransfer.length;
-      this.progress.bytesTotal = filesToTransfer.reduce((total, file) => total + (file.size || 0), 0);
+      const filesToTransfer = entries.filter(entry => entry.file.type === 'file');
+
+      // Skip files an earlier run of this job already finished
+      const checkpoints = await this.engine.getFileLogs(this.job.id);
+      this.checkpoints = new Map(checkpoints.map(log => [log.filePath, log]));
+
+      const isDone = (path: string) => this.checkpoints.get(path)?.status === 'completed';
+      const pendingFiles = filesToTransfer.filter(entry => !isDone(entry.file.path));
+      const doneSizes = filesToTransfer
+        .filter(entry => isDone(entry.file.path))
+        .map(entry => entry.file.size || 0);
+
+      // Files moved by an earlier run are gone from the source but still count
+      const walkedPaths = new Set(filesToTransfer.map(entry => entry.file.path));
+      const movedSizes = checkpoints
+        .filter(log => log.status === 'completed' && log.transferredAt && !walkedPaths.has(log.filePath))
+        .map(log => log.fileSize || 0);
+
+      const sum = (sizes: number[]) => sizes.reduce((total, size) => total + size, 0);
+
+      this.progress.filesTotal = filesToTransfer.length + movedSizes.length;
+      this.progress.bytesTotal = sum(filesToTransfer.map(entry => entry.file.size || 0)) + sum(movedSizes);
+      this.progress.filesCompleted = doneSizes.length + movedSizes.length;
+      this.progress.bytesTransferred = sum(doneSizes) + sum(movedSizes);
+      this.resumedBytes = this.progress.bytesTransferred;
+
+      if (this.progress.filesCompleted > 0) {
+        logger.info(`Resuming transfer ${this.job.id}: ${this.progress.filesCompleted} files already done`);
+      }
 
       await this.engine.updateTransferJob(this.job.id, {
         filesTotal: this.progress.filesTotal,
-        bytesTotal: this.progress.bytesTotal
+        bytesTotal: this.progress.bytesTotal,
+        filesCompleted: this.progress.filesCompleted,
+        filesFailed: 0,
+        bytesTransferred: this.progress.bytesTransferred
       });
 
-      // Transfer files
-      for (const file of filesToTransfer) {
+      // Recreate the folder hierarchy before any file lands in it
+      for (const folder of folders) {
         if (this.cancelled) {
           throw new Error('Transfer cancelled');
         }
@@ -543,20 +876,40 @@ class TransferExecution {
           throw new Error('Transfer paused');
         }
 
-        await this.transferFile(file);
-        
-        this.progress.filesCompleted++;
-        this.progress.progressPercentage = Math.round(
-          (this.progress.filesCompleted / this.progress.filesTotal) * 100
-        );
+        await this.ensureDestinationFolder(this.buildDestinationPath(folder.relativePath));
+      }
 
-        await this.updateProgress();
+      // Transfer files
+      await this.transferFiles(pendingFiles);
+
+      if (this.fatalError) {
+        throw this.fatalError;
+      }
+
+      if (this.cancelled) {
+        throw new Error('Transfer cancelled');
+      }
+
+      if (this.paused) {
+        throw new Error('Transfer paused');
+      }
+
+      if (this.job.options?.deleteSourceAfterTransfer) {
+        await this.removeEmptySourceFolders(folders);
       }
 
       // Complete successfully
       await this.engine.completeTransfer(this.job.id, true);
 
     } catch (error) {
+      // Paused and cancelled jobs keep the status set by the engine; the
+      // checkpoints let a resumed run pick up where this one stopped
+      if (this.cancelled || (this.paused && !this.fatalError)) {
+        await this.updateProgress().catch(() => undefined);
+        await this.engine.releaseTransfer(this.job.id);
+        return;
+      }
+
       await this.engine.completeTransfer(
         this.job.id,
         false,
@@ -565,62 +918,444 @@ class TransferExecution {
     }
   }
 
-  private async transferFile(file: FileItem): Promise<void> {
-    if (file.type === 'folder') {
-      // Create folder in destination
-      const destPath = this.buildDestinationPath(file.path);
-      await this.destProvider!.createFolder(destPath);
-      return;
+  /**
+   * Build tree entries for the files seeded into a retry job. Files that
+   * can no longer be looked up are still attempted so they fail with the
+   * provider's error instead of silently disappearing.
+   */
+  private async collectRetryEntries(): Promise<FileTreeEntry[]> {
+    const logs = await this.engine.getFileLogs(this.job.id);
+    const entries: FileTreeEntry[] = [];
+
+    for (const log of logs) {
+      const relativePath = posix.relative(this.job.sourcePath || '/', log.filePath);
+      const file = await this.sourceProvider!.getFileInfo(log.filePath).catch(() => null);
+
+      entries.push({
+        file: {
+          id: log.filePath,
+          name: posix.basename(log.filePath),
+          type: 'file',
+          size: log.fileSize,
+          ...file,
+          path: log.filePath
+        },
+        relativePath,
+        depth: relativePath.split('/').length - 1
+      });
     }
 
+    return entries;
+  }
+
+  /**
+   * Run file transfers through a bounded worker pool sized by
+   * TransferOptions.parallelTransfers. Workers stop picking up new files once
+   * the job is paused, cancelled or hits a fatal error; on pause the files
+   * already in flight are allowed to finish.
+   */
+  private async transferFiles(files: FileTreeEntry[]): Promise<void> {
+    const concurrency = Math.min(
+      Math.max(this.job.options?.parallelTransfers || 1, 1),
+      MAX_PARALLEL_TRANSFERS,
+      Math.max(files.length, 1)
+    );
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < files.length && !this.shouldStopWorkers()) {
+        const entry = files[nextIndex++];
+        const success = await this.transferFile(entry);
+
+        // A cancelled file is neither completed nor failed, nor is one
+        // whose retry was cut short
+        if (this.cancelled || success === undefined) {
+          return;
+        }
+
+        if (success) {
+          this.progress.filesCompleted++;
+        } else {
+          this.progress.filesFailed++;
+        }
+
+        const processed = this.progress.filesCompleted + this.progress.filesFailed;
+        this.progress.progressPercentage = Math.round((processed / this.progress.filesTotal) * 100);
+
+        await this.updateProgress();
+      }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+  }
+
+  private shouldStopWorkers(): boolean {
+    return this.cancelled || this.paused || !!this.fatalError;
+  }
+
+  private async ensureDestinationFolder(path: string): Promise<void> {
     try {
+      await this.destProvider!.createFolder(path);
+    } catch (error) {
+      // Providers report existing folders differently, so check directly
+      const existing = await this.destProvider!.getFileInfo(path).catch(() => null);
+      if (!existing || existing.type !== 'folder') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Transfer one file, retrying failures the job's retry policy allows.
+   * Fatal errors (auth, quota) stop the whole job. Resolves to undefined
+   * when the job stops before a retry, leaving the file to a resumed run.
+   */
+  private async transferFile(entry: FileTreeEntry): Promise<boolean | undefined> {
+    const policy = RetryPolicy.resolve(this.job.options?.retryPolicy);
+
+    for (let attempt = 1; ; attempt++) {
+      const error = await this.attemptTransfer(entry);
+
+      if (error === undefined) {
+        return true;
+      }
+
+      if (this.cancelled) {
+        return false;
+      }
+
+      if (RetryPolicy.isFatal(error)) {
+        this.fatalError = error as Error;
+        return false;
+      }
+
+      if (!RetryPolicy.shouldRetry(error, attempt, policy)) {
+        return false;
+      }
+
+      if (this.shouldStopWorkers()) {
+        return undefined;
+      }
+
+      const retryDelay = RetryPolicy.getDelay(error, attempt, policy);
+      logger.warn(`Retrying ${entry.file.path} in ${retryDelay}ms (attempt ${attempt + 1} of ${policy.maxAttempts})`);
+
+      await this.recordRetry(entry.file, {
+        attempt,
+        errorCode: error instanceof CloudProviderError ? error.code : undefined,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        retryDelay,
+        failedAt: new Date()
+      });
+
+      await this.waitBeforeRetry(retryDelay);
+
+      if (this.shouldStopWorkers()) {
+        return undefined;
+      }
+    }
+  }
+
+  /**
+   * Wait out a retry delay, waking early if the job is stopped
+   */
+  private async waitBeforeRetry(delay: number): Promise<void> {
+    const wakeAt = Date.now() + delay;
+
+    while (Date.now() < wakeAt && !this.shouldStopWorkers()) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(250, wakeAt - Date.now())));
+    }
+  }
+
+  /**
+   * Make one attempt at a file. Returns the error it failed with, or
+   * undefined once the file is safely at the destination.
+   */
+  private async attemptTransfer(entry: FileTreeEntry): Promise<unknown> {
+    const file = entry.file;
+    const destPath = this.buildDestinationPath(entry.relativePath);
+    let transferredBytes = 0;
+    let downloadStream: Readable | undefined;
+    let sourceChecksum: string | undefined;
+    let destinationChecksum: string | undefined;
+
+    // Hash the bytes as they stream past so verification needs no second source read
+    const algorithm = this.destProvider!.capabilities.checksumAlgorithm || ChecksumService.DEFAULT_ALGORITHM;
+    const hash = this.job.options?.verifyIntegrity ? ChecksumService.createHash(algorithm) : undefined;
+
+    // Continue a partial upload if the destination can pick it up
+    const resumeSession = this.destProvider!.capabilities.supportsResume
+      ? this.checkpoints.get(file.path)?.uploadSession
+      : undefined;
+    let uploadSession = resumeSession;
+    let sessionSavedAt = 0;
+
+    await this.saveCheckpoint(file, { status: 'transferring', uploadSession });
+
+    try {
+      // A resumed upload only needs the rest of the file, unless every byte
+      // has to pass through the hash
+      const resumeOffset = resumeSession?.bytesUploaded || 0;
+      const rangeStart = resumeOffset > 0 && !hash && this.sourceProvider!.capabilities.supportsRangeDownload
+        ? resumeOffset
+        : 0;
+
       // Download from source
-      const downloadStream = await this.sourceProvider!.downloadFile(file.path);
-      
-      // Upload to destination
-      const destPath = this.buildDestinationPath(file.path);
-      
-      // Track progress
-      let transferredBytes = 0;
-      const passThrough = new PassThrough();
-      
-      downloadStream.on('data', (chunk: Buffer) => {
-        transferredBytes += chunk.length;
-        this.progress.bytesTransferred += chunk.length;
-        this.progress.currentFile = file.name;
-        this.updateTransferSpeed();
+      downloadStream = await this.sourceProvider!.downloadFile(
+        file.path,
+        rangeStart > 0 ? { start: rangeStart } : undefined
+      );
+      this.activeStreams.add(downloadStream);
+
+      // Count the bytes not read again as done, without inflating the speed
+      transferredBytes += rangeStart;
+      this.progress.bytesTransferred += rangeStart;
+      this.resumedBytes += rangeStart;
+
+      // Track progress, dropping the bytes a resumed upload already holds
+      let bytesToSkip = resumeOffset - rangeStart;
+      const forward = new Transform({
+        transform: (chunk: Buffer, _encoding, callback) => {
+          hash?.update(chunk);
+          transferredBytes += chunk.length;
+          this.progress.bytesTransferred += chunk.length;
+          this.progress.currentFile = entry.relativePath;
+          this.updateTransferSpeed();
+
+          if (bytesToSkip > 0) {
+            const skipped = Math.min(bytesToSkip, chunk.length);
+            bytesToSkip -= skipped;
+            chunk = chunk.subarray(skipped);
+          }
+
+          if (chunk.length === 0) {
+            callback();
+            return;
+          }
+
+          // Hold the chunk back until the job, user and server limits allow it
+          const out = chunk;
+          (this.bandwidth ? this.bandwidth.consume(out.length) : Promise.resolve())
+            .then(() => callback(null, out), callback);
+        }
       });
 
-      downloadStream.pipe(passThrough);
+      downloadStream.on('error', error => forward.destroy(error));
+      downloadStream.pipe(forward);
 
-      await this.destProvider!.uploadFile(destPath, passThrough, {
+      // Upload to destination
+      const uploaded = await this.destProvider!.uploadFile(destPath, forward, {
         fileSize: file.size,
         mimeType: file.mimeType,
-        overwrite: this.job.options?.overwriteExisting || false
+        overwrite: this.job.options?.overwriteExisting || false,
+        preserveTimestamps: this.job.options?.preserveTimestamps,
+        modifiedAt: file.modifiedAt ? new Date(file.modifiedAt) : undefined,
+        resumeSession,
+        onSessionUpdate: session => {
+          uploadSession = session;
+
+          if (Date.now() - sessionSavedAt >= UPLOAD_SESSION_CHECKPOINT_MS) {
+            sessionSavedAt = Date.now();
+            this.saveCheckpoint(file, { status: 'transferring', uploadSession: session });
+          }
+        }
+      });
+
+      sourceChecksum = hash?.digest('hex');
+      destinationChecksum = sourceChecksum
+        ? await this.verifyUpload(file, destPath, uploaded, sourceChecksum, algorithm)
+        : undefined;
+
+      if (this.job.options?.preserveTimestamps && file.modifiedAt) {
+        await this.preserveModifiedTime(file, destPath, uploaded);
+      }
+
+      const transferredAt = new Date();
+      let sourceDeletedAt: Date | undefined;
+
+      if (this.job.options?.deleteSourceAfterTransfer) {
+        try {
+          await this.sourceProvider!.deleteFile(file.path);
+          sourceDeletedAt = new Date();
+        } catch (error) {
+          // The copy is kept, but the file was not moved
+          logger.error(`Failed to delete source file ${file.path} after transfer:`, error);
+
+          const deleteError = new Error(
+            `Transferred but not deleted from source: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+
+          await this.saveCheckpoint(file, {
+            status: 'failed',
+            errorMessage: deleteError.message,
+            errorCode: 'SOURCE_DELETE_ERROR',
+            sourceChecksum,
+            destinationChecksum,
+            transferredAt
+          });
+
+          return deleteError;
+        }
+      }
+
+      await this.saveCheckpoint(file, {
+        status: 'completed',
+        sourceChecksum,
+        destinationChecksum,
+        transferredAt,
+        sourceDeletedAt
       });
 
+      return undefined;
+
     } catch (error) {
-      this.progress.filesFailed++;
-      logger.error(`Failed to transfer file ${file.path}:`, error);
-      
-      // Continue with other files unless it's a critical error
-      if (error instanceof Error && error.message.includes('authentication')) {
-        throw error;
+      // Bytes of a file that didn't make it don't count as transferred
+      this.progress.bytesTransferred -= transferredBytes;
+
+      // Keep the upload session only if it got somewhere, so a stale one isn't retried forever
+      const keepSession = uploadSession &&
+        (!resumeSession || uploadSession.bytesUploaded > resumeSession.bytesUploaded);
+
+      const checkpoint = this.checkpoints.get(file.path);
+      if (checkpoint) {
+        checkpoint.uploadSession = keepSession ? uploadSession : undefined;
+      }
+
+      await this.saveCheckpoint(file, {
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        errorCode: error instanceof CloudProviderError ? error.code : 'TRANSFER_ERROR',
+        sourceChecksum: error instanceof IntegrityError ? error.expectedChecksum || sourceChecksum : sourceChecksum,
+        destinationChecksum: error instanceof IntegrityError ? error.actualChecksum : undefined,
+        uploadSession: keepSession ? uploadSession : undefined
+      });
+
+      if (!this.cancelled) {
+        logger.error(`Failed to transfer file ${file.path}:`, error);
+      }
+
+      return error;
+    } finally {
+      if (downloadStream) {
+        this.activeStreams.delete(downloadStream);
+      }
+    }
+  }
+
+  /**
+   * Persist a file's state. Writes for the same file are chained so an
+   * older state never lands after a newer one; failures are only logged.
+   */
+  private saveCheckpoint(file: FileItem, checkpoint: FileCheckpoint): Promise<void> {
+    return this.queueFileWrite(file, () => this.engine.recordFileLog(this.job.id, {
+      filePath: file.path,
+      fileSize: file.size,
+      ...checkpoint
+    }));
+  }
+
+  private recordRetry(file: FileItem, retry: FileRetryAttempt): Promise<void> {
+    return this.queueFileWrite(file, () => this.engine.recordFileRetry(this.job.id, file.path, retry));
+  }
+
+  private queueFileWrite(file: FileItem, writeFn: () => Promise<void>): Promise<void> {
+    const previous = this.checkpointWrites.get(file.path) || Promise.resolve();
+
+    const write: Promise<void> = previous
+      .then(writeFn)
+      .catch(error => {
+        logger.error(`Failed to checkpoint ${file.path}:`, error);
+      })
+      .finally(() => {
+        if (this.checkpointWrites.get(file.path) === write) {
+          this.checkpointWrites.delete(file.path);
+        }
+      });
+
+    this.checkpointWrites.set(file.path, write);
+    return write;
+  }
+
+  /**
+   * Copy the source modification time to the destination. Providers that
+   * can't store it are skipped; failures don't fail the file.
+   */
+  private async preserveModifiedTime(file: FileItem, destPath: string, uploaded: FileItem): Promise<void> {
+    try {
+      const preserved = await ModifiedTime.preserve(this.destProvider!, destPath, uploaded, file.modifiedAt!);
+      if (!preserved) {
+        logger.debug(`${this.destProvider!.displayName} did not keep the modification time of ${destPath}`);
+      }
+    } catch (error) {
+      logger.warn(`Failed to preserve modification time of ${destPath}:`, error);
+    }
+  }
+
+  /**
+   * Compare the checksum of the bytes sent with what the destination stored.
+   * Providers without content hashes are verified by reading the file back.
+   */
+  private async verifyUpload(
+    file: FileItem,
+    destPath: string,
+    uploaded: FileItem,
+    sourceChecksum: string,
+    algorithm: ChecksumAlgorithm
+  ): Promise<string> {
+    const destinationChecksum = this.destProvider!.capabilities.checksumAlgorithm && uploaded.checksum
+      ? uploaded.checksum
+      : await ChecksumService.hashStream(await this.destProvider!.downloadFile(destPath), algorithm);
+
+    if (!ChecksumService.matches(sourceChecksum, destinationChecksum)) {
+      throw new IntegrityError(
+        `${algorithm} mismatch for ${file.path}: expected ${sourceChecksum}, got ${destinationChecksum}`,
+        this.destProvider!.providerType,
+        sourceChecksum,
+        destinationChecksum
+      );
+    }
+
+    return destinationChecksum;
+  }
+
+  /**
+   * Remove source folders left empty by a move, deepest first. Folders that
+   * still hold anything (failed or filtered-out files) are left alone, as is
+   * the source root itself.
+   */
+  private async removeEmptySourceFolders(folders: FileTreeEntry[]): Promise<void> {
+    const deepestFirst = [...folders].sort((a, b) => b.depth - a.depth);
+
+    for (const folder of deepestFirst) {
+      try {
+        const remaining = await this.sourceProvider!.listFiles(folder.file.path);
+        if (remaining.length > 0) {
+          continue;
+        }
+
+        await this.sourceProvider!.deleteFile(folder.file.path);
+
+        await this.engine.recordFileLog(this.job.id, {
+          filePath: folder.file.path,
+          status: 'completed',
+          sourceDeletedAt: new Date()
+        });
+      } catch (error) {
+        logger.warn(`Failed to remove source folder ${folder.file.path}:`, error);
       }
     }
   }
 
-  private buildDestinationPath(sourcePath: string): string {
-    // Replace source path with destination path
-    const relativePath = sourcePath.replace(this.job.sourcePath, '');
-    return this.job.destinationPath + relativePath;
+  private buildDestinationPath(relativePath: string): string {
+    return FileTreeWalker.joinPath(this.job.destinationPath, relativePath);
   }
 
   private updateTransferSpeed(): void {
     if (!this.startTime) return;
 
+    // Bytes finished by an earlier run don't count towards this run's speed
     const elapsedSeconds = (Date.now() - this.startTime.getTime()) / 1000;
-    this.progress.transferSpeed = Math.round(this.progress.bytesTransferred / elapsedSeconds);
+    this.progress.transferSpeed = Math.round((this.progress.bytesTransferred - this.resumedBytes) / elapsedSeconds);
 
     // Estimate remaining time
     const remainingBytes = this.progress.bytesTotal - this.progress.bytesTransferred;
@@ -630,16 +1365,24 @@ class TransferExecution {
   }
 
   private async updateProgress(): Promise<void> {
-    this.progress.updatedAt = new Date();
-    
-    await this.engine.updateTransferJob(this.job.id, {
-      progressPercentage: this.progress.progressPercentage,
-      filesCompleted: this.progress.filesCompleted,
-      filesFailed: this.progress.filesFailed,
-      bytesTransferred: this.progress.bytesTransferred,
-      transferSpeed: this.progress.transferSpeed,
-      estimatedTimeRemaining: this.progress.estimatedTimeRemaining
-    });
+    // Workers finish concurrently; chain the writes so an older snapshot
+    // never lands after a newer one
+    this.progressWrite = this.progressWrite
+      .catch(() => undefined)
+      .then(() => {
+        this.progress.updatedAt = new Date();
+
+        return this.engine.updateTransferJob(this.job.id, {
+          progressPercentage: this.progress.progressPercentage,
+          filesCompleted: this.progress.filesCompleted,
+          filesFailed: this.progress.filesFailed,
+          bytesTransferred: this.progress.bytesTransferred,
+          transferSpeed: this.progress.transferSpeed,
+          estimatedTimeRemaining: this.progress.estimatedTimeRemaining
+        });
+      });
+
+    await this.progressWrite;
   }
 }
 
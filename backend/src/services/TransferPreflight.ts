@@ -0,0 +1,283 @@
+import { posix } from 'path';
+import { FileItem, FileFilter, TransferOptions } from '../types';
+import { query } from '../database/connection';
+import { cloudProviderFactory } from '../providers/CloudProviderFactory';
+import { ICloudProvider } from '../providers/ICloudProvider';
+import {
+  CloudProviderError,
+  FileSizeLimitError,
+  InsufficientStorageError,
+  UnsupportedOperationError
+} from '../providers/errors';
+import { FileTreeWalker } from '../utils/fileTree';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.errors({ stack: true }),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.simple()
+    })
+  ]
+});
+
+// Used for time estimates until the user has completed transfers to learn from
+const DEFAULT_TRANSFER_SPEED = parseInt(process.env.PREFLIGHT_DEFAULT_SPEED || String(5 * 1024 * 1024));
+
+export interface TransferPreflightRequest {
+  userId: string;
+  sourceCloudId: string;
+  destinationCloudId: string;
+  sourcePath: string;
+  destinationPath: string;
+  filters?: FileFilter;
+  options?: TransferOptions;
+}
+
+export interface TransferEstimate {
+  filesTotal: number;
+  foldersTotal: number;
+  estimatedSize: number; // bytes
+  estimatedTime: number; // seconds
+}
+
+export interface PreflightProblem {
+  code: string;
+  message: string;
+  path?: string;
+}
+
+export interface TransferValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  problems: PreflightProblem[]; // blocking problems, errors holds their messages
+  estimate?: TransferEstimate;
+}
+
+interface SourceScan {
+  files: FileItem[];
+  foldersTotal: number;
+  bytesTotal: number;
+}
+
+export class TransferPreflight {
+  /**
+   * Walk the source with the job's filters and estimate its size and duration
+   */
+  public async estimate(request: TransferPreflightRequest): Promise<TransferEstimate> {
+    const source = await this.getProvider(request.userId, request.sourceCloudId);
+    const scan = await this.scanSource(source, request);
+
+    return this.buildEstimate(request.userId, scan);
+  }
+
+  /**
+   * Check a transfer before it is created. Everything that would make it
+   * fail is reported as a blocking problem rather than thrown.
+   */
+  public async validate(request: TransferPreflightRequest): Promise<TransferValidation> {
+    const problems: PreflightProblem[] = [];
+    const warnings: string[] = [];
+
+    if (request.sourceCloudId === request.destinationCloudId &&
+        this.isSameOrInside(request.destinationPath, request.sourcePath)) {
+      problems.push({
+        code: 'OVERLAPPING_PATHS',
+        message: 'Destination path must not be inside the source path'
+      });
+    }
+
+    const source = await this.getProvider(request.userId, request.sourceCloudId);
+    const destination = await this.getProvider(request.userId, request.destinationCloudId);
+
+    if (!destination.capabilities.supportsUpload) {
+      problems.push(this.toProblem(new UnsupportedOperationError(
+        `${destination.displayName} does not support uploads`,
+        destination.providerType,
+        'upload'
+      )));
+    }
+
+    let scan: SourceScan;
+    try {
+      scan = await this.scanSource(source, request);
+    } catch (error) {
+      problems.push(error instanceof CloudProviderError
+        ? this.toProblem(error, request.sourcePath)
+        : { code: 'SOURCE_ERROR', message: error instanceof Error ? error.message : 'Failed to read source' });
+
+      return this.buildValidation(problems, warnings);
+    }
+
+    if (scan.files.length === 0) {
+      warnings.push('No files match the source path and filters');
+    }
+
+    for (const file of scan.files) {
+      problems.push(...this.checkFile(file, destination));
+    }
+
+    await this.checkQuota(destination, scan.bytesTotal, problems, warnings);
+
+    return this.buildValidation(problems, warnings, await this.buildEstimate(request.userId, scan));
+  }
+
+  // Private helper methods
+
+  private async scanSource(source: ICloudProvider, request: TransferPreflightRequest): Promise<SourceScan> {
+    const maxDepth = request.filters?.folderDepth;
+    const entries = await FileTreeWalker.walk(source, request.sourcePath, {
+      filters: request.filters,
+      maxDepth
+    });
+
+    const files = entries.filter(entry => entry.file.type === 'file').map(entry => entry.file);
+
+    return {
+      files,
+      foldersTotal: entries.filter(entry =>
+        entry.file.type === 'folder' && (maxDepth === undefined || entry.depth < maxDepth)
+      ).length,
+      bytesTotal: files.reduce((total, file) => total + (file.size || 0), 0)
+    };
+  }
+
+  private checkFile(file: FileItem, destination: ICloudProvider): PreflightProblem[] {
+    const problems: PreflightProblem[] = [];
+    const { maxFileSize, supportedMimeTypes } = destination.capabilities;
+
+    if (maxFileSize && file.size && file.size > maxFileSize) {
+      problems.push(this.toProblem(new FileSizeLimitError(
+        `${file.name} is larger than the destination allows (${file.size} > ${maxFileSize} bytes)`,
+        destination.providerType,
+        file.size,
+        maxFileSize
+      ), file.path));
+    }
+
+    if (supportedMimeTypes?.length && file.mimeType && !this.isMimeTypeSupported(file.mimeType, supportedMimeTypes)) {
+      problems.push(this.toProblem(new UnsupportedOperationError(
+        `${file.name} has a file type the destination does not accept (${file.mimeType})`,
+        destination.providerType,
+        'upload'
+      ), file.path));
+    }
+
+    return problems;
+  }
+
+  private async checkQuota(
+    destination: ICloudProvider,
+    bytesRequired: number,
+    problems: PreflightProblem[],
+    warnings: string[]
+  ): Promise<void> {
+    try {
+      const quota = await destination.getQuota();
+
+      // Providers report a zero total when they don't know their quota
+      if (quota.total <= 0) {
+        warnings.push(`${destination.displayName} does not report free space; capacity was not checked`);
+        return;
+      }
+
+      if (bytesRequired > quota.available) {
+        problems.push(this.toProblem(new InsufficientStorageError(
+          `Destination needs ${bytesRequired} bytes but only ${quota.available} are available`,
+          destination.providerType,
+          bytesRequired,
+          quota.available
+        )));
+      }
+    } catch (error) {
+      logger.warn('Failed to check destination quota:', error);
+      warnings.push('Could not read destination quota; capacity was not checked');
+    }
+  }
+
+  private async buildEstimate(userId: string, scan: SourceScan): Promise<TransferEstimate> {
+    const speed = await this.getAverageSpeed(userId);
+
+    return {
+      filesTotal: scan.files.length,
+      foldersTotal: scan.foldersTotal,
+      estimatedSize: scan.bytesTotal,
+      estimatedTime: Math.ceil(scan.bytesTotal / speed)
+    };
+  }
+
+  private buildValidation(
+    problems: PreflightProblem[],
+    warnings: string[],
+    estimate?: TransferEstimate
+  ): TransferValidation {
+    return {
+      valid: problems.length === 0,
+      errors: problems.map(problem => problem.message),
+      warnings,
+      problems,
+      estimate
+    };
+  }
+
+  /**
+   * Average speed of the user's completed transfers, or the default
+   */
+  private async getAverageSpeed(userId: string): Promise<number> {
+    const result = await query(
+      `SELECT AVG(transfer_speed) as average_speed FROM transfer_jobs
+       WHERE user_id = $1 AND status = 'completed' AND transfer_speed > 0`,
+      [userId]
+    );
+
+    return parseFloat(result.rows[0]?.average_speed) || DEFAULT_TRANSFER_SPEED;
+  }
+
+  private async getProvider(userId: string, cloudId: string): Promise<ICloudProvider> {
+    const result = await query(
+      'SELECT * FROM cloud_providers WHERE id = $1 AND user_id = $2 AND is_active = true',
+      [cloudId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Cloud provider not found or inactive');
+    }
+
+    const providerData = result.rows[0];
+    const provider = await cloudProviderFactory.createProvider(
+      providerData.provider_type,
+      providerData.config ? JSON.parse(providerData.config) : {}
+    );
+
+    await provider.authenticate(
+      JSON.parse(providerData.credentials),
+      providerData.config ? JSON.parse(providerData.config) : {}
+    );
+
+    return provider;
+  }
+
+  private isMimeTypeSupported(mimeType: string, supportedMimeTypes: string[]): boolean {
+    return supportedMimeTypes.some(supported => supported.endsWith('/*')
+      ? mimeType.startsWith(supported.slice(0, -1))
+      : mimeType === supported);
+  }
+
+  private isSameOrInside(path: string, parentPath: string): boolean {
+    const relativePath = posix.relative(posix.join('/', parentPath), posix.join('/', path));
+    return relativePath !== '..' && !relativePath.startsWith('../');
+  }
+
+  private toProblem(error: CloudProviderError, path?: string): PreflightProblem {
+    return { code: error.code, message: error.message, path };
+  }
+}
+
+// Export singleton instance
+export const transferPreflight = new TransferPreflight();
@@ -63,6 +63,20 @@ export interface FileItem {
   isShared?: boolean;
 }
 
+// A change below a folder, from a provider's change feed
+export interface FileChange {
+  type: 'created' | 'modified' | 'deleted';
+  path: string;
+  file?: FileItem; // unset for deletions
+}
+
+export interface FileChangeSet {
+  changes: FileChange[];
+  cursor: string; // pass to the next call
+  hasMore: boolean; // more changes are waiting, call again with cursor
+  reset: boolean; // no usable cursor was given, so changes list every entry as created
+}
+
 export interface FileFilter {
   includePatterns?: string[];
   excludePatterns?: string[];
@@ -74,6 +88,12 @@ export interface FileFilter {
   folderDepth?: number;
 }
 
+export interface FileTreeEntry {
+  file: FileItem;
+  relativePath: string; // path below the walked root, '/'-separated
+  depth: number; // 0 for direct children of the root
+}
+
 export interface TransferJob {
   id: string;
   userId: string;
@@ -93,6 +113,7 @@ export interface TransferJob {
   filters?: FileFilter;
   options?: TransferOptions;
   errorMessage?: string;
+  parentTransferId?: string; // set on retry jobs, points at the transfer being retried
   startedAt?: Date;
   completedAt?: Date;
   createdAt: Date;
@@ -114,6 +135,23 @@ export interface TransferOptions {
   createMissingFolders?: boolean;
   deleteSourceAfterTransfer?: boolean;
   parallelTransfers?: number;
+  retryPolicy?: TransferRetryPolicy;
+  bandwidthLimit?: number; // bytes per second, unlimited when 0 or unset
+  bandwidthSchedule?: BandwidthScheduleRule[]; // overrides bandwidthLimit while a rule applies
+}
+
+export interface BandwidthScheduleRule {
+  days?: number[]; // 0 (Sunday) to 6, every day when unset
+  start: string; // 'HH:MM', server local time
+  end: string; // 'HH:MM', before start for rules that run past midnight
+  limit: number; // bytes per second, 0 for unlimited
+}
+
+export interface TransferRetryPolicy {
+  maxAttempts?: number; // attempts per file, including the first
+  initialDelay?: number; // milliseconds before the first retry
+  maxDelay?: number; // milliseconds
+  backoffMultiplier?: number;
 }
 
 export interface SyncJob {
@@ -128,7 +166,7 @@ export interface SyncJob {
   isActive: boolean;
   lastSync?: Date;
   nextSync?: Date;
-  lastSyncStatus: 'pending' | 'running' | 'completed' | 'failed';
+  lastSyncStatus: 'pending' | 'running' | 'completed' | 'failed' | 'blocked' | 'cancelled'; // blocked: deletions await approval
   filters?: FileFilter;
   options?: SyncOptions;
   conflictResolution: 'skip' | 'overwrite' | 'rename';
@@ -142,18 +180,193 @@ export interface SyncOptions {
   createMissingFolders?: boolean;
   maxSyncDepth?: number;
   excludeHiddenFiles?: boolean;
+  compareMode?: SyncCompareMode; // how files on both sides are compared, 'mtime_size' when unset
+  conflictNamePattern?: string; // for 'rename', e.g. '{name} (conflict from {provider} {date}){ext}'
+  maxDeleteCount?: number; // entries a run may delete per side before it waits for approval
+  maxDeletePercent?: number; // same as a share of the side, 0 to disable
+  backupPath?: string; // destination folder that replaced and deleted destination files are moved to
+  backupRetentionDays?: number; // prune backed-up versions older than this
+  backupMaxVersions?: number; // keep at most this many versions of each path
+  continuous?: boolean; // also run shortly after changes are noticed
+  watchInterval?: number; // continuous: seconds between checks for changes
+  watchDebounce?: number; // continuous: seconds without further changes before a run starts
+}
+
+export type SyncTrigger = 'cron' | 'manual' | 'api' | 'watch'; // watch: changes noticed on a continuous job
+
+// One execution of a sync job
+export interface SyncRun {
+  id: string;
+  syncJobId: string;
+  trigger: SyncTrigger;
+  status: 'running' | 'completed' | 'partial' | 'failed' | 'cancelled' | 'blocked'; // partial: some files failed
+  filesProcessed: number;
+  filesAdded: number;
+  filesUpdated: number;
+  filesDeleted: number;
+  filesFailed: number;
+  conflicts: number;
+  bytesTransferred: number;
+  duration?: number; // seconds, once the run has ended
+  errorMessage?: string;
+  pendingDeletions?: SyncPendingDeletion[]; // blocked runs: the deletions that need approval
+  deletionsApprovedAt?: Date;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+// Scheduled runs of a user's sync jobs over a window of time
+export interface SyncSchedule {
+  from: Date;
+  to: Date;
+  jobs: SyncScheduleJob[];
+  overlaps: SyncScheduleOverlap[];
+}
+
+export interface SyncScheduleJob {
+  syncJobId: string;
+  alias: string; // source and destination account aliases
+  schedule: string; // cron expression, UTC
+  isActive: boolean;
+  nextRun?: Date;
+  lastRun?: Date;
+  estimatedDuration: number; // seconds, from recent runs
+  runs: Date[]; // start times within the window
+  truncated: boolean; // the window holds more runs than listed
+}
+
+// Runs of different jobs expected to use the same cloud account at once
+export interface SyncScheduleOverlap {
+  cloudProviderId: string;
+  cloudAlias: string;
+  start: Date;
+  end: Date;
+  runs: Array<{ syncJobId: string; startsAt: Date; endsAt: Date }>;
+}
+
+// Path a sync wants to delete, with everything inside it
+export interface SyncPendingDeletion {
+  side: 'source' | 'destination';
+  relativePath: string;
+}
+
+// mtime_size: newer modification time, or size when times aren't usable
+// size: size only
+// checksum: content hashes, computed or fetched on every run
+// checksum_cached: content hashes, reused while size and modification time stay the same
+export type SyncCompareMode = 'mtime_size' | 'size' | 'checksum' | 'checksum_cached';
+
+export interface SyncConflict {
+  id: string;
+  syncJobId: string;
+  relativePath: string;
+  reason: string;
+  resolution: 'skipped' | 'renamed' | 'overwritten';
+  keptSide?: 'source' | 'destination'; // whose version is now at the path
+  conflictCopyPath?: string; // where the other version was kept, for 'renamed'
+  createdAt: Date;
+}
+
+// Operations a sync would run, grouped by action
+export interface SyncPreview {
+  syncJobId: string;
+  syncMode: SyncJob['syncMode'];
+  uploads: SyncPreviewItem[]; // source to destination
+  downloads: SyncPreviewItem[]; // destination to source
+  createFolders: SyncPreviewItem[];
+  moves: SyncPreviewItem[]; // renames replayed on the other side instead of copying again
+  deletes: SyncPreviewItem[];
+  conflicts: SyncPreviewConflict[];
+  totalOperations: number;
+  totalConflicts: number;
+  totalBytes: number; // bytes uploaded and downloaded, conflicts not included
+  deletionWarning?: string; // set when the deletions would need approval before a run
+  generatedAt: Date;
+}
+
+export interface SyncPreviewItem {
+  relativePath: string;
+  path: string; // path written or deleted
+  side: 'source' | 'destination'; // side that changes
+  type: 'file' | 'folder';
+  size?: number;
+  movedFrom?: string; // moves: the path moved away from
+}
+
+export interface SyncPreviewConflict {
+  relativePath: string;
+  reason: string;
+  sourceFile: SyncFileState;
+  destinationFile?: SyncFileState;
+  resolution: SyncJob['conflictResolution']; // what the sync will do with it
+}
+
+// Last synced state of one path of a two-way sync
+export interface SyncBaselineEntry {
+  relativePath: string;
+  fileType: 'file' | 'folder';
+  source: SyncFileState;
+  destination: SyncFileState;
+  syncedAt: Date;
+}
+
+export interface SyncFileState {
+  fileId?: string; // provider file id
+  size?: number;
+  modifiedAt?: Date;
+  checksum?: string;
+}
+
+// Where one side of a sync job left off in its provider's change feed
+export interface SyncChangeCursor {
+  side: 'source' | 'destination';
+  cloudProviderId: string;
+  rootPath: string;
+  cursor: string;
+  files: FileItem[]; // what the feed reported below rootPath as of the cursor
+  updatedAt: Date;
 }
 
 export interface FileTransferLog {
   id: string;
   transferJobId?: string;
   syncJobId?: string;
+  syncRunId?: string;
   filePath: string;
   fileSize?: number;
   status: 'pending' | 'transferring' | 'completed' | 'failed' | 'skipped';
   errorMessage?: string;
+  errorCode?: string;
+  sourceChecksum?: string;
+  destinationChecksum?: string;
   transferredAt?: Date;
+  sourceDeletedAt?: Date; // set when a move removed the file from the source
+  uploadSession?: UploadSession;
+  retryCount?: number;
+  retryHistory?: FileRetryAttempt[];
   createdAt: Date;
+  updatedAt?: Date;
+}
+
+export interface FileRetryAttempt {
+  attempt: number;
+  errorCode?: string;
+  errorMessage: string;
+  retryDelay: number; // milliseconds waited before the next attempt
+  failedAt: Date;
+}
+
+export interface ByteRange {
+  start: number;
+  end?: number; // inclusive, to the end of the file when unset
+}
+
+export interface UploadSession {
+  uploadId: string;
+  uploadUrl?: string;
+  bytesUploaded: number;
+  partSize?: number; // set for segmented uploads
+  completedParts?: number[]; // segmented parts stored past bytesUploaded
 }
 
 export interface TransferProgress {
@@ -214,10 +427,17 @@ export interface CloudProviderCapabilities {
   supportsCopy: boolean;
   supportsResume: boolean;
   supportsChunkedUpload: boolean;
+  supportsRangeDownload: boolean; // downloadFile honors a byte range without reading the skipped bytes
+  supportsModifiedTime: boolean; // can store a given modification time, on upload or with setModifiedTime
+  supportsChangeFeed: boolean; // getChanges reads a delta feed instead of comparing full listings
+  checksumAlgorithm?: ChecksumAlgorithm; // algorithm behind FileItem.checksum, unset when it isn't a content hash
+  supportedHashes: ChecksumAlgorithm[]; // hashes available without downloading, from listings or getFileHash
   maxFileSize?: number;
   supportedMimeTypes?: string[];
 }
 
+export type ChecksumAlgorithm = 'md5' | 'sha1' | 'sha256';
+
 export interface AuthToken {
   accessToken: string;
   refreshToken?: string;
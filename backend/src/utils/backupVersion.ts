@@ -0,0 +1,92 @@
+import { posix } from 'path';
+import { FileTreeEntry } from '../types';
+
+export interface BackupRetention {
+  retentionDays?: number; // prune versions older than this
+  maxVersions?: number; // keep at most this many versions of each path
+}
+
+const STAMP_PATTERN = /^(.+)\.(\d{4})-(\d{2})-(\d{2})_(\d{2})(\d{2})(\d{2})(\.[^.]+)?$/;
+
+export class BackupVersion {
+  /**
+   * Name of a backed-up version, the date stamp going before the extension:
+   * 'report.pdf' becomes 'report.2024-03-05_090703.pdf'. Stamps are UTC.
+   */
+  public static build(fileName: string, date: Date): string {
+    const ext = posix.extname(fileName);
+    const name = ext ? fileName.slice(0, -ext.length) : fileName;
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    const stamp = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}` +
+      `_${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+
+    return `${name}.${stamp}${ext}`;
+  }
+
+  /**
+   * Original name and date of a backed-up version, or undefined for other names
+   */
+  public static parse(fileName: string): { originalName: string; versionedAt: Date } | undefined {
+    const match = STAMP_PATTERN.exec(fileName);
+    if (!match) return undefined;
+
+    const [, name, year, month, day, hours, minutes, seconds, ext] = match;
+    const versionedAt = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+    if (isNaN(versionedAt.getTime())) return undefined;
+
+    return { originalName: `${name}${ext || ''}`, versionedAt };
+  }
+
+  /**
+   * Versions in a walked backup folder that fall outside the retention
+   * policy. Versions of the same path are grouped by folder and original
+   * name; the contents of a backed-up folder go with it.
+   */
+  public static selectExpired(
+    entries: FileTreeEntry[],
+    retention: BackupRetention,
+    now: Date = new Date()
+  ): FileTreeEntry[] {
+    const groups = new Map<string, Array<{ entry: FileTreeEntry; versionedAt: Date }>>();
+    const versionedFolders: string[] = [];
+
+    for (const entry of entries) {
+      if (versionedFolders.some(folder => entry.relativePath.startsWith(`${folder}/`))) continue;
+
+      const version = this.parse(entry.file.name);
+      if (!version) continue;
+
+      if (entry.file.type === 'folder') {
+        versionedFolders.push(entry.relativePath);
+      }
+
+      const key = posix.join(posix.dirname(entry.relativePath), version.originalName);
+      groups.set(key, [...(groups.get(key) || []), { entry, versionedAt: version.versionedAt }]);
+    }
+
+    const cutoff = retention.retentionDays !== undefined && retention.retentionDays > 0
+      ? now.getTime() - retention.retentionDays * 24 * 60 * 60 * 1000
+      : undefined;
+    const maxVersions = retention.maxVersions !== undefined && retention.maxVersions > 0
+      ? retention.maxVersions
+      : undefined;
+
+    const expired: FileTreeEntry[] = [];
+
+    for (const versions of groups.values()) {
+      versions.sort((a, b) => b.versionedAt.getTime() - a.versionedAt.getTime());
+
+      versions.forEach(({ entry, versionedAt }, index) => {
+        const tooMany = maxVersions !== undefined && index >= maxVersions;
+        const tooOld = cutoff !== undefined && versionedAt.getTime() < cutoff;
+
+        if (tooMany || tooOld) {
+          expired.push(entry);
+        }
+      });
+    }
+
+    return expired;
+  }
+}
@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+import { FileChange, FileChangeSet, FileItem } from '../types';
+import { ChangeFeedOptions, ICloudProvider } from '../providers/ICloudProvider';
+import { FileTreeWalker } from './fileTree';
+
+export class ChangeFeed {
+  /**
+   * Change feed for providers without one: walk the folder with the
+   * caller's filters and depth limit, and compare it with the files the
+   * caller kept from the last call. The cursor only names that listing, so
+   * the caller's files are the one copy of it. Only saves work for the
+   * caller, the folder is still listed as a walk would.
+   */
+  public static async fromSnapshot(
+    provider: ICloudProvider,
+    path: string,
+    cursor?: string,
+    options: ChangeFeedOptions = {}
+  ): Promise<FileChangeSet> {
+    const { files: previous, ...walkOptions } = options;
+    const files = (await FileTreeWalker.walk(provider, path, walkOptions)).map(entry => entry.file);
+
+    // Files that aren't the listing the cursor names can't be diffed against
+    const usable = previous && cursor !== undefined && cursor === this.cursorFor(previous) ? previous : undefined;
+
+    return {
+      changes: usable
+        ? this.diff(usable, files)
+        : files.map(file => ({ type: 'created' as const, path: file.path, file })),
+      cursor: this.cursorFor(files),
+      hasMore: false,
+      reset: !usable
+    };
+  }
+
+  /**
+   * Changes between an earlier and the current listing of a folder.
+   * Deleting a folder deletes what was inside it, so its contents aren't
+   * listed separately.
+   */
+  public static diff(previousFiles: FileItem[], files: FileItem[]): FileChange[] {
+    const previous = new Map(previousFiles.map(file => [file.path, this.signature(file)]));
+    const changes: FileChange[] = [];
+    const current = new Set<string>();
+
+    for (const file of files) {
+      current.add(file.path);
+
+      const signature = previous.get(file.path);
+      if (signature === undefined) {
+        changes.push({ type: 'created', path: file.path, file });
+      } else if (signature !== this.signature(file)) {
+        changes.push({ type: 'modified', path: file.path, file });
+      }
+    }
+
+    const deletedFolders: string[] = [];
+    for (const [path, signature] of [...previous].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+      if (current.has(path) || deletedFolders.some(folder => path.startsWith(`${folder}/`))) continue;
+
+      if (signature.startsWith('folder')) {
+        deletedFolders.push(path);
+      }
+      changes.push({ type: 'deleted', path });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Bring a list of files up to date with a change set
+   */
+  public static apply(files: FileItem[], changes: FileChange[]): FileItem[] {
+    const byPath = new Map(files.map(file => [file.path, file]));
+
+    const removeInside = (path: string) => {
+      for (const existing of byPath.keys()) {
+        if (existing.startsWith(`${path}/`)) byPath.delete(existing);
+      }
+    };
+
+    for (const change of changes) {
+      const previous = byPath.get(change.path);
+
+      if (change.type === 'deleted' || !change.file) {
+        byPath.delete(change.path);
+        if (previous?.type !== 'file') removeInside(change.path);
+        continue;
+      }
+
+      // A folder replaced by a file takes its contents with it
+      if (previous?.type === 'folder' && change.file.type === 'file') {
+        removeInside(change.path);
+      }
+
+      byPath.set(change.path, { ...change.file, path: change.path });
+    }
+
+    return [...byPath.values()];
+  }
+
+  private static signature(file: FileItem): string {
+    const modifiedAt = file.modifiedAt ? new Date(file.modifiedAt).getTime() : '';
+    return `${file.type}|${file.size ?? ''}|${modifiedAt}|${file.checksum || ''}`;
+  }
+
+  /**
+   * Short cursor naming a listing, a hash of what diff compares
+   */
+  private static cursorFor(files: FileItem[]): string {
+    const snapshot = files.map(file => `${file.path}|${this.signature(file)}`).sort();
+    return createHash('sha1').update(JSON.stringify(snapshot)).digest('hex');
+  }
+}
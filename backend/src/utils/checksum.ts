@@ -0,0 +1,52 @@
+import { createHash, Hash } from 'crypto';
+import { Readable } from 'stream';
+import { ChecksumAlgorithm } from '../types';
+
+export class ChecksumService {
+  public static readonly DEFAULT_ALGORITHM: ChecksumAlgorithm = 'md5';
+
+  /**
+   * Create an incremental hash to feed stream chunks into
+   */
+  public static createHash(algorithm: ChecksumAlgorithm = this.DEFAULT_ALGORITHM): Hash {
+    return createHash(algorithm);
+  }
+
+  /**
+   * Consume a stream and return its hex digest
+   */
+  public static async hashStream(
+    stream: Readable,
+    algorithm: ChecksumAlgorithm = this.DEFAULT_ALGORITHM
+  ): Promise<string> {
+    const hash = this.createHash(algorithm);
+
+    for await (const chunk of stream) {
+      hash.update(chunk);
+    }
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * Hash to compare two providers by: one both support if there is one,
+   * otherwise one of them supports so only the other side downloads
+   */
+  public static pickAlgorithm(supported1: ChecksumAlgorithm[], supported2: ChecksumAlgorithm[]): ChecksumAlgorithm {
+    return supported1.find(algorithm => supported2.includes(algorithm)) ||
+      supported1[0] ||
+      supported2[0] ||
+      this.DEFAULT_ALGORITHM;
+  }
+
+  /**
+   * Compare two checksums, ignoring case and surrounding quotes
+   */
+  public static matches(checksum1: string, checksum2: string): boolean {
+    return this.normalize(checksum1) === this.normalize(checksum2);
+  }
+
+  private static normalize(checksum: string): string {
+    return checksum.trim().replace(/^"|"$/g, '').toLowerCase();
+  }
+}
@@ -0,0 +1,34 @@
+import { posix } from 'path';
+
+export interface ConflictNameContext {
+  provider: string; // name of the side the conflicting copy came from
+  date: Date;
+}
+
+export class ConflictName {
+  public static readonly DEFAULT_PATTERN = '{name} (conflict from {provider} {date}){ext}';
+
+  /**
+   * Build the name of a conflict copy. Patterns may use {name}, {ext},
+   * {provider}, {date} (YYYY-MM-DD) and {time} (HHMMSS), in server local time.
+   */
+  public static build(fileName: string, context: ConflictNameContext, pattern: string = this.DEFAULT_PATTERN): string {
+    const ext = posix.extname(fileName);
+    const name = ext ? fileName.slice(0, -ext.length) : fileName;
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const { date } = context;
+
+    const values: Record<string, string> = {
+      name,
+      ext,
+      provider: context.provider.replace(/[\/\\]/g, '-'),
+      date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+      time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+    };
+
+    const built = pattern.replace(/\{(name|ext|provider|date|time)\}/g, (_match, key: string) => values[key]);
+
+    // A pattern that drops the name would make every conflict copy collide
+    return built && built !== fileName && !built.includes('/') ? built : this.build(fileName, context);
+  }
+}
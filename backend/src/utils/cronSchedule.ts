@@ -0,0 +1,132 @@
+// Values each field allows, seconds first
+interface CronFields {
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 (Sunday) to 6
+}
+
+const FIELD_RANGES: Array<[number, number]> = [[0, 59], [0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CronSchedule {
+  // How far ahead next() looks for a time that matches, in days
+  public static readonly MAX_SEARCH_DAYS = 366 * 5;
+
+  /**
+   * Run times of a cron expression from `from` (inclusive) to `to`
+   * (exclusive), in UTC like scheduled syncs. Matches node-cron: five or six
+   * fields, and a time has to match every field, day of month and day of
+   * week included.
+   */
+  public static between(expression: string, from: Date, to: Date, limit: number = 1000): Date[] {
+    const fields = this.parse(expression);
+    const times: Date[] = [];
+    const start = from.getTime();
+    const end = to.getTime();
+
+    for (let day = Math.floor(start / DAY_MS) * DAY_MS; day < end; day += DAY_MS) {
+      const date = new Date(day);
+      if (
+        !fields.months.has(date.getUTCMonth() + 1) ||
+        !fields.daysOfMonth.has(date.getUTCDate()) ||
+        !fields.daysOfWeek.has(date.getUTCDay())
+      ) {
+        continue;
+      }
+
+      for (const hour of fields.hours) {
+        for (const minute of fields.minutes) {
+          for (const second of fields.seconds) {
+            const time = day + ((hour * 60 + minute) * 60 + second) * 1000;
+            if (time < start) continue;
+            if (time >= end || times.length >= limit) return times;
+
+            times.push(new Date(time));
+          }
+        }
+      }
+    }
+
+    return times;
+  }
+
+  /**
+   * First run time after a moment, undefined when there is none in
+   * MAX_SEARCH_DAYS (e.g. '0 0 31 2 *')
+   */
+  public static next(expression: string, after: Date = new Date()): Date | undefined {
+    const from = new Date(Math.floor(after.getTime() / 1000) * 1000 + 1000);
+    return this.between(expression, from, new Date(from.getTime() + this.MAX_SEARCH_DAYS * DAY_MS), 1)[0];
+  }
+
+  /**
+   * Expand an expression into the values of each field. Throws on anything
+   * node-cron wouldn't accept.
+   */
+  public static parse(expression: string): CronFields {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5 && parts.length !== 6) {
+      throw new Error(`Invalid cron expression: ${expression}`);
+    }
+
+    // Without a seconds field runs start on the minute
+    const [seconds, minutes, hours, daysOfMonth, months, daysOfWeek] = (parts.length === 5 ? ['0', ...parts] : parts)
+      .map((part, index) => this.parseField(part.toLowerCase(), FIELD_RANGES[index], index, expression));
+
+    return {
+      seconds,
+      minutes,
+      hours,
+      daysOfMonth: new Set(daysOfMonth),
+      months: new Set(months),
+      daysOfWeek: new Set(daysOfWeek.map(day => day % 7))
+    };
+  }
+
+  private static parseField(field: string, [min, max]: [number, number], index: number, expression: string): number[] {
+    const values = new Set<number>();
+    const names = index === 4 ? MONTH_NAMES : index === 5 ? WEEKDAY_NAMES : [];
+    const offset = index === 4 ? 1 : 0;
+
+    const toNumber = (value: string): number => {
+      const named = names.findIndex(name => value.startsWith(name));
+      const number = named !== -1 ? named + offset : /^\d+$/.test(value) ? parseInt(value) : NaN;
+
+      if (isNaN(number) || number < min || number > max) {
+        throw new Error(`Invalid cron expression: ${expression}`);
+      }
+      return number;
+    };
+
+    for (const item of field.split(',')) {
+      const [range, stepText] = item.split('/');
+      const step = stepText === undefined ? 1 : parseInt(stepText);
+      if (!(step > 0) || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+        throw new Error(`Invalid cron expression: ${expression}`);
+      }
+
+      const [first, last] = range === '*'
+        ? [min, max]
+        : range.includes('-')
+          ? range.split('-').map(toNumber)
+          : [toNumber(range), stepText === undefined ? toNumber(range) : max];
+
+      if (first > last) {
+        throw new Error(`Invalid cron expression: ${expression}`);
+      }
+
+      for (let value = first; value <= last; value += step) {
+        values.add(value);
+      }
+    }
+
+    return [...values].sort((a, b) => a - b);
+  }
+}
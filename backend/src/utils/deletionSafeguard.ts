@@ -0,0 +1,52 @@
+import { SyncOptions, SyncPendingDeletion } from '../types';
+
+// Used when a job doesn't set maxDeletePercent; 0, the default, disables the check
+export const DEFAULT_MAX_DELETE_PERCENT = parseInt(process.env.SYNC_MAX_DELETE_PERCENT || '0');
+
+export class DeletionSafeguard {
+  /**
+   * Why the planned deletions need approval, or undefined when they are
+   * within the job's limits. Each side is checked against the number of
+   * entries it holds; a deleted folder counts with everything inside it,
+   * and deletions approved earlier don't count.
+   */
+  public static check(
+    deletions: SyncPendingDeletion[],
+    sideEntries: Record<SyncPendingDeletion['side'], string[]>,
+    options: SyncOptions = {},
+    approved: SyncPendingDeletion[] = []
+  ): string | undefined {
+    const maxCount = options.maxDeleteCount;
+    const maxPercent = options.maxDeletePercent ?? DEFAULT_MAX_DELETE_PERCENT;
+
+    for (const side of ['source', 'destination'] as const) {
+      const deleted = this.paths(deletions, side);
+      if (deleted.length === 0) continue;
+
+      const allowed = this.paths(approved, side);
+      const entries = sideEntries[side];
+      const count = entries.filter(path => this.covers(deleted, path) && !this.covers(allowed, path)).length;
+      if (count === 0) continue;
+
+      if (maxCount !== undefined && maxCount >= 0 && count > maxCount) {
+        return `Sync would delete ${count} entries on the ${side}, more than the limit of ${maxCount}`;
+      }
+
+      const percent = entries.length > 0 ? (count / entries.length) * 100 : 100;
+      if (maxPercent > 0 && percent > maxPercent) {
+        return `Sync would delete ${count} of ${entries.length} entries on the ${side} (${Math.round(percent)}%), ` +
+          `more than the limit of ${maxPercent}%`;
+      }
+    }
+
+    return undefined;
+  }
+
+  private static paths(deletions: SyncPendingDeletion[], side: SyncPendingDeletion['side']): string[] {
+    return deletions.filter(deletion => deletion.side === side).map(deletion => deletion.relativePath);
+  }
+
+  private static covers(paths: string[], relativePath: string): boolean {
+    return paths.some(path => relativePath === path || relativePath.startsWith(`${path}/`));
+  }
+}
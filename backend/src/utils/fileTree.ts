@@ -0,0 +1,112 @@
+import { posix } from 'path';
+import { FileItem, FileFilter, FileTreeEntry } from '../types';
+import { ICloudProvider, matchesFileFilter, matchesPattern } from '../providers/ICloudProvider';
+
+export interface FileTreeWalkOptions {
+  filters?: FileFilter;
+  maxDepth?: number; // folder levels to descend below the root, unlimited when undefined
+  shouldStop?: () => boolean;
+}
+
+export class FileTreeWalker {
+  /**
+   * Walk a provider folder recursively and return every folder and file below it.
+   * Folders are always listed before their contents so callers can create the
+   * destination hierarchy in order.
+   */
+  public static async walk(
+    provider: ICloudProvider,
+    rootPath: string,
+    options: FileTreeWalkOptions = {}
+  ): Promise<FileTreeEntry[]> {
+    const entries: FileTreeEntry[] = [];
+    await this.walkFolder(provider, rootPath, '', 0, options, entries);
+    return entries;
+  }
+
+  /**
+   * Build the tree a walk of rootPath would return from a flat list of the
+   * files below it, applying the same filters and depth limit. Folders come
+   * before their contents.
+   */
+  public static fromFiles(rootPath: string, files: FileItem[], options: FileTreeWalkOptions = {}): FileTreeEntry[] {
+    const root = rootPath || '/';
+    const excludedFolders: string[] = [];
+
+    const entries = files
+      .map(file => ({ file, relativePath: posix.relative(root, file.path) }))
+      .filter(({ relativePath }) => relativePath && !relativePath.startsWith('..'))
+      .sort((a, b) => (a.relativePath < b.relativePath ? -1 : a.relativePath > b.relativePath ? 1 : 0));
+
+    const tree: FileTreeEntry[] = [];
+
+    for (const { file, relativePath } of entries) {
+      const depth = relativePath.split('/').length - 1;
+
+      if (options.maxDepth !== undefined && depth > options.maxDepth) continue;
+      if (excludedFolders.some(folder => relativePath.startsWith(`${folder}/`))) continue;
+
+      if (file.type === 'folder') {
+        if (this.isFolderExcluded(file, options.filters)) {
+          excludedFolders.push(relativePath);
+          continue;
+        }
+      } else if (!matchesFileFilter(file, options.filters)) {
+        continue;
+      }
+
+      tree.push({ file, relativePath, depth });
+    }
+
+    return tree;
+  }
+
+  /**
+   * Join a root path and a relative path into a provider path
+   */
+  public static joinPath(rootPath: string, relativePath: string): string {
+    return posix.join(rootPath || '/', relativePath);
+  }
+
+  private static async walkFolder(
+    provider: ICloudProvider,
+    folderPath: string,
+    relativeFolder: string,
+    depth: number,
+    options: FileTreeWalkOptions,
+    entries: FileTreeEntry[]
+  ): Promise<void> {
+    if (options.shouldStop?.()) return;
+
+    const items = await provider.listFiles(folderPath);
+
+    for (const item of items) {
+      if (options.shouldStop?.()) return;
+
+      const relativePath = relativeFolder ? `${relativeFolder}/${item.name}` : item.name;
+
+      // Some providers don't return full paths, so build them from the walk
+      const file: FileItem = { ...item, path: this.joinPath(folderPath, item.name) };
+
+      if (item.type === 'folder') {
+        if (this.isFolderExcluded(item, options.filters)) continue;
+
+        entries.push({ file, relativePath, depth });
+
+        if (options.maxDepth === undefined || depth < options.maxDepth) {
+          await this.walkFolder(provider, file.path, relativePath, depth + 1, options, entries);
+        }
+      } else if (matchesFileFilter(item, options.filters)) {
+        entries.push({ file, relativePath, depth });
+      }
+    }
+  }
+
+  /**
+   * Only exclude patterns apply to folders; include patterns and size/date
+   * filters are meant for the files inside them
+   */
+  private static isFolderExcluded(folder: FileItem, filters?: FileFilter): boolean {
+    return !!filters?.excludePatterns?.some(pattern => matchesPattern(folder.name, pattern));
+  }
+}
@@ -0,0 +1,67 @@
+import { hostname } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../database/connection';
+
+export type LeasedJobTable = 'transfer_jobs' | 'sync_jobs';
+
+export class JobLeaseError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} is owned by another instance`);
+    this.name = 'JobLeaseError';
+  }
+}
+
+export class JobLease {
+  // Identifies this process as the owner of the jobs it runs
+  public static readonly INSTANCE_ID = `${hostname()}:${process.pid}:${uuidv4()}`;
+  public static readonly TTL_SECONDS = parseInt(process.env.JOB_LEASE_TTL_SECONDS || '60');
+  public static readonly HEARTBEAT_INTERVAL_MS = (JobLease.TTL_SECONDS * 1000) / 3;
+
+  /**
+   * Claim a job for this instance. Fails with JobLeaseError while another
+   * instance holds an unexpired lease on it.
+   */
+  public static async acquire(table: LeasedJobTable, jobId: string): Promise<void> {
+    const result = await query(
+      `UPDATE ${table}
+       SET lease_owner = $1, lease_expires_at = NOW() + make_interval(secs => $2)
+       WHERE id = $3 AND (lease_owner IS NULL OR lease_owner = $1 OR lease_expires_at < NOW())
+       RETURNING id`,
+      [this.INSTANCE_ID, this.TTL_SECONDS, jobId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new JobLeaseError(jobId);
+    }
+  }
+
+  /**
+   * Extend the leases this instance holds on the given jobs
+   */
+  public static async renew(table: LeasedJobTable, jobIds: string[]): Promise<void> {
+    if (jobIds.length === 0) return;
+
+    await query(
+      `UPDATE ${table}
+       SET lease_expires_at = NOW() + make_interval(secs => $1)
+       WHERE id = ANY($2) AND lease_owner = $3`,
+      [this.TTL_SECONDS, jobIds, this.INSTANCE_ID]
+    );
+  }
+
+  /**
+   * Give up this instance's lease on a job
+   */
+  public static async release(table: LeasedJobTable, jobId: string): Promise<void> {
+    await query(
+      `UPDATE ${table} SET lease_owner = NULL, lease_expires_at = NULL
+       WHERE id = $1 AND lease_owner = $2`,
+      [jobId, this.INSTANCE_ID]
+    );
+  }
+
+  /**
+   * SQL condition matching jobs nobody holds a live lease on
+   */
+  public static readonly UNLEASED_CONDITION = '(lease_owner IS NULL OR lease_expires_at < NOW())';
+}
@@ -0,0 +1,41 @@
+import { FileItem } from '../types';
+import { ICloudProvider } from '../providers/ICloudProvider';
+
+export class ModifiedTime {
+  // HTTP dates and FAT volumes only keep whole (or even) seconds
+  public static readonly TOLERANCE_MS = 2000;
+
+  /**
+   * Whether two modification times are the same within the tolerance
+   */
+  public static isSame(a?: Date | string, b?: Date | string): boolean {
+    if (!a || !b) return false;
+    return Math.abs(new Date(a).getTime() - new Date(b).getTime()) <= this.TOLERANCE_MS;
+  }
+
+  /**
+   * Whether a is newer than b by more than the tolerance
+   */
+  public static isNewer(a: Date | string, b: Date | string): boolean {
+    return new Date(a).getTime() - new Date(b).getTime() > this.TOLERANCE_MS;
+  }
+
+  /**
+   * Give an uploaded file the source's modification time. Returns false when
+   * the provider can't store it; providers that only set it on upload have
+   * already done so through UploadOptions.modifiedAt.
+   */
+  public static async preserve(
+    provider: ICloudProvider,
+    path: string,
+    uploaded: FileItem,
+    modifiedAt: Date | string
+  ): Promise<boolean> {
+    if (!provider.capabilities.supportsModifiedTime) return false;
+    if (this.isSame(uploaded.modifiedAt, modifiedAt)) return true;
+    if (!provider.setModifiedTime) return false;
+
+    const updated = await provider.setModifiedTime(path, new Date(modifiedAt));
+    return this.isSame(updated.modifiedAt, modifiedAt);
+  }
+}
@@ -0,0 +1,121 @@
+import { posix } from 'path';
+import { ModifiedTime } from './modifiedTime';
+import { ChecksumService } from './checksum';
+
+// An entry about to be deleted or created, described on the side that changed
+export interface MoveCandidate {
+  relativePath: string;
+  type: 'file' | 'folder';
+  fileId?: string;
+  checksum?: string;
+  size?: number;
+  modifiedAt?: Date;
+  children?: MoveCandidate[]; // folders: entries inside, relative to the folder
+}
+
+export interface MoveMatchOptions {
+  compareIds: boolean; // file ids of both candidates come from the same provider
+  compareChecksums: boolean; // checksums of both candidates use the same hash
+}
+
+export interface MoveMatch {
+  from: MoveCandidate;
+  to: MoveCandidate;
+}
+
+export class MoveDetector {
+  /**
+   * Pair removed entries with added ones holding the same content. Only
+   * unambiguous pairs are returned; folders are matched before files, and
+   * entries inside a matched folder go with it.
+   */
+  public static match(removed: MoveCandidate[], added: MoveCandidate[], options: MoveMatchOptions): MoveMatch[] {
+    const matches: MoveMatch[] = [];
+    const movedFrom: string[] = [];
+    const movedTo: string[] = [];
+
+    const byDepth = (a: MoveCandidate, b: MoveCandidate) =>
+      a.relativePath.split('/').length - b.relativePath.split('/').length;
+
+    const isInside = (paths: string[], relativePath: string) =>
+      paths.some(path => relativePath.startsWith(`${path}/`));
+
+    for (const type of ['folder', 'file'] as const) {
+      const froms = removed.filter(entry => entry.type === type && !isInside(movedFrom, entry.relativePath)).sort(byDepth);
+      const tos = added.filter(entry => entry.type === type && !isInside(movedTo, entry.relativePath)).sort(byDepth);
+
+      const candidates = new Map(froms.map(from => [from, tos.filter(to => this.isSame(from, to, options))]));
+      const claims = new Map<MoveCandidate, number>();
+
+      for (const tosOfFrom of candidates.values()) {
+        for (const to of tosOfFrom) {
+          claims.set(to, (claims.get(to) || 0) + 1);
+        }
+      }
+
+      for (const [from, tosOfFrom] of candidates) {
+        const to = tosOfFrom[0];
+        if (tosOfFrom.length !== 1 || claims.get(to) !== 1) continue;
+
+        // A folder moved with its parent is already taken care of
+        if (isInside(movedFrom, from.relativePath) || isInside(movedTo, to.relativePath)) continue;
+
+        matches.push({ from, to });
+        if (type === 'folder') {
+          movedFrom.push(from.relativePath);
+          movedTo.push(to.relativePath);
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Entries inside a moved folder that the move brings along, relative to it
+   */
+  public static movedChildren(match: MoveMatch, options: MoveMatchOptions): string[] {
+    const targets = new Map((match.to.children || []).map(child => [child.relativePath, child]));
+
+    return (match.from.children || [])
+      .filter(child => {
+        const target = targets.get(child.relativePath);
+        return !!target && this.isSameEntry(child, target, options, true);
+      })
+      .map(child => child.relativePath);
+  }
+
+  private static isSame(from: MoveCandidate, to: MoveCandidate, options: MoveMatchOptions): boolean {
+    if (from.type !== to.type) return false;
+
+    if (options.compareIds && from.fileId && to.fileId && from.fileId === to.fileId) {
+      return true;
+    }
+
+    if (from.type === 'file') {
+      return this.isSameEntry(from, to, options, false);
+    }
+
+    // Everything that was in the folder is in the new one under the same name
+    const children = from.children || [];
+    return children.length > 0 && this.movedChildren({ from, to }, options).length === children.length;
+  }
+
+  /**
+   * Same content by checksum, or by size and modification time when
+   * checksums can't be compared. Without checksums a renamed file can't be
+   * told from another one, so its name has to match too.
+   */
+  private static isSameEntry(from: MoveCandidate, to: MoveCandidate, options: MoveMatchOptions, sameName: boolean): boolean {
+    if (from.type !== to.type) return false;
+    if (from.type === 'folder') return true;
+    if (from.size === undefined || from.size !== to.size) return false;
+
+    if (options.compareChecksums && from.checksum && to.checksum) {
+      return ChecksumService.matches(from.checksum, to.checksum);
+    }
+
+    const nameMatches = sameName || posix.basename(from.relativePath) === posix.basename(to.relativePath);
+    return nameMatches && !!from.modifiedAt && !!to.modifiedAt && ModifiedTime.isSame(from.modifiedAt, to.modifiedAt);
+  }
+}
@@ -0,0 +1,63 @@
+import { TransferRetryPolicy } from '../types';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  InsufficientStorageError,
+  RateLimitError,
+  isRetryableError
+} from '../providers/errors';
+
+export class RetryPolicy {
+  public static readonly DEFAULTS: Required<TransferRetryPolicy> = {
+    maxAttempts: parseInt(process.env.TRANSFER_RETRY_ATTEMPTS || '3'),
+    initialDelay: 1000,
+    maxDelay: 60000,
+    backoffMultiplier: 2
+  };
+
+  /**
+   * Fill in a job's retry policy with the defaults
+   */
+  public static resolve(policy?: TransferRetryPolicy): Required<TransferRetryPolicy> {
+    return {
+      maxAttempts: Math.max(policy?.maxAttempts ?? this.DEFAULTS.maxAttempts, 1),
+      initialDelay: Math.max(policy?.initialDelay ?? this.DEFAULTS.initialDelay, 0),
+      maxDelay: Math.max(policy?.maxDelay ?? this.DEFAULTS.maxDelay, 0),
+      backoffMultiplier: Math.max(policy?.backoffMultiplier ?? this.DEFAULTS.backoffMultiplier, 1)
+    };
+  }
+
+  /**
+   * Errors that will fail every other file too, so the whole job should stop
+   */
+  public static isFatal(error: unknown): boolean {
+    return error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof InsufficientStorageError;
+  }
+
+  /**
+   * Whether a file that failed on the given attempt (1-based) should be tried again
+   */
+  public static shouldRetry(error: unknown, attempt: number, policy: Required<TransferRetryPolicy>): boolean {
+    return attempt < policy.maxAttempts && !this.isFatal(error) && isRetryableError(error);
+  }
+
+  /**
+   * Milliseconds to wait after the given failed attempt. Exponential backoff,
+   * but never sooner than a rate limit's Retry-After.
+   */
+  public static getDelay(error: unknown, attempt: number, policy: Required<TransferRetryPolicy>): number {
+    const backoff = Math.min(
+      policy.initialDelay * Math.pow(policy.backoffMultiplier, attempt - 1),
+      policy.maxDelay
+    );
+
+    // Retry-After may come straight from a header as a string
+    const retryAfter = error instanceof RateLimitError ? Number(error.retryAfter) : NaN;
+
+    return Number.isFinite(retryAfter) && retryAfter > 0
+      ? Math.max(retryAfter * 1000, backoff)
+      : backoff;
+  }
+}
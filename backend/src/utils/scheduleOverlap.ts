@@ -0,0 +1,58 @@
+export interface ScheduledRun {
+  key: string; // what is run, e.g. a sync job id
+  resources: string[]; // what the run uses, e.g. cloud account ids
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface RunOverlap {
+  resource: string;
+  start: Date;
+  end: Date;
+  runs: ScheduledRun[];
+}
+
+export class ScheduleOverlap {
+  /**
+   * Stretches of time in which runs of different keys use the same
+   * resource. Runs that overlap each other in a chain form one stretch.
+   */
+  public static find(runs: ScheduledRun[]): RunOverlap[] {
+    const byResource = new Map<string, ScheduledRun[]>();
+
+    for (const run of runs) {
+      for (const resource of new Set(run.resources)) {
+        byResource.set(resource, [...(byResource.get(resource) || []), run]);
+      }
+    }
+
+    const overlaps: RunOverlap[] = [];
+
+    for (const [resource, resourceRuns] of byResource) {
+      const sorted = [...resourceRuns].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+      let group: ScheduledRun[] = [];
+      let groupEnd = 0;
+
+      const close = () => {
+        if (new Set(group.map(run => run.key)).size > 1) {
+          overlaps.push({ resource, start: group[0].startsAt, end: new Date(groupEnd), runs: group });
+        }
+      };
+
+      for (const run of sorted) {
+        if (group.length > 0 && run.startsAt.getTime() >= groupEnd) {
+          close();
+          group = [];
+          groupEnd = 0;
+        }
+
+        group.push(run);
+        groupEnd = Math.max(groupEnd, run.endsAt.getTime());
+      }
+
+      if (group.length > 0) close();
+    }
+
+    return overlaps.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+}
@@ -0,0 +1,106 @@
+import { FileItem, FileTreeEntry, SyncBaselineEntry, SyncCompareMode, SyncFileState } from '../types';
+import { ModifiedTime } from './modifiedTime';
+
+export type SyncChange = 'none' | 'created' | 'modified' | 'deleted';
+
+export interface SyncPathDiff {
+  relativePath: string;
+  source?: FileTreeEntry;
+  destination?: FileTreeEntry;
+  baseline?: SyncBaselineEntry;
+  sourceChange: SyncChange;
+  destinationChange: SyncChange;
+}
+
+export class SyncBaseline {
+  /**
+   * Snapshot of a file as stored in the baseline
+   */
+  public static toState(file: FileItem): SyncFileState {
+    return {
+      fileId: file.id,
+      size: file.size,
+      modifiedAt: file.modifiedAt,
+      checksum: file.checksum
+    };
+  }
+
+  /**
+   * How one side changed since the last sync. In 'size' mode only the size
+   * counts; otherwise checksums are preferred over modification times.
+   */
+  public static detectChange(
+    current: FileItem | undefined,
+    previous: SyncFileState | undefined,
+    compareMode: SyncCompareMode = 'mtime_size'
+  ): SyncChange {
+    if (!current) return previous ? 'deleted' : 'none';
+    if (!previous) return 'created';
+    if (current.type === 'folder') return 'none';
+
+    if (compareMode === 'size') {
+      return current.size === previous.size ? 'none' : 'modified';
+    }
+
+    if (current.checksum && previous.checksum) {
+      return current.checksum === previous.checksum ? 'none' : 'modified';
+    }
+
+    if (current.size !== previous.size) return 'modified';
+
+    if (current.modifiedAt && previous.modifiedAt) {
+      return ModifiedTime.isSame(current.modifiedAt, previous.modifiedAt) ? 'none' : 'modified';
+    }
+
+    return 'none';
+  }
+
+  /**
+   * Three-way diff of both sides against the baseline. Parents come before
+   * their contents.
+   */
+  public static diff(
+    sourceTree: Map<string, FileTreeEntry>,
+    destTree: Map<string, FileTreeEntry>,
+    baseline: Map<string, SyncBaselineEntry>,
+    compareMode: SyncCompareMode = 'mtime_size'
+  ): SyncPathDiff[] {
+    const paths = new Set([...sourceTree.keys(), ...destTree.keys(), ...baseline.keys()]);
+
+    return [...paths].sort().map(relativePath => {
+      const source = sourceTree.get(relativePath);
+      const destination = destTree.get(relativePath);
+      const previous = baseline.get(relativePath);
+
+      return {
+        relativePath,
+        source,
+        destination,
+        baseline: previous,
+        sourceChange: this.detectChange(source?.file, previous?.source, compareMode),
+        destinationChange: this.detectChange(destination?.file, previous?.destination, compareMode)
+      };
+    });
+  }
+
+  /**
+   * Whether two files changed on both sides ended up the same. Checksums are
+   * only comparable when both sides hold the same content hash.
+   */
+  public static isSameContent(
+    a: FileItem,
+    b: FileItem,
+    compareChecksums: boolean,
+    compareMode: SyncCompareMode = 'mtime_size'
+  ): boolean {
+    if (a.type === 'folder' || b.type === 'folder') return a.type === b.type;
+    if (a.size !== b.size) return false;
+    if (compareMode === 'size') return true;
+
+    if (compareChecksums && a.checksum && b.checksum) {
+      return a.checksum === b.checksum;
+    }
+
+    return ModifiedTime.isSame(a.modifiedAt, b.modifiedAt);
+  }
+}
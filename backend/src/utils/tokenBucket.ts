@@ -0,0 +1,76 @@
+import { BandwidthScheduleRule } from '../types';
+
+/**
+ * Token bucket holding up to one second of traffic. The rate is read on
+ * every refill so schedules and tier changes apply to running streams;
+ * a rate of 0 means unlimited.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly getRate: () => number) {
+    this.tokens = getRate();
+  }
+
+  /**
+   * Resolve once the bytes may be sent. Callers are served in order.
+   */
+  public consume(bytes: number): Promise<void> {
+    const next = this.pending.then(() => this.take(bytes));
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+
+  private async take(bytes: number): Promise<void> {
+    const rate = this.getRate();
+    if (!(rate > 0)) return;
+
+    const now = Date.now();
+    this.tokens = Math.min(rate, this.tokens + ((now - this.lastRefill) / 1000) * rate);
+    this.lastRefill = now;
+
+    // Go into debt and wait it off, so chunks larger than the bucket still pass
+    this.tokens -= bytes;
+    if (this.tokens < 0) {
+      await new Promise(resolve => setTimeout(resolve, (-this.tokens / rate) * 1000));
+    }
+  }
+}
+
+export class BandwidthSchedule {
+  /**
+   * Limit of the first rule covering the given time, or undefined when no
+   * rule applies. Times are server local; a rule whose end is before its
+   * start runs past midnight.
+   */
+  public static resolve(rules: BandwidthScheduleRule[] | undefined, date: Date = new Date()): number | undefined {
+    const minutes = date.getHours() * 60 + date.getMinutes();
+
+    for (const rule of rules || []) {
+      const start = this.toMinutes(rule.start);
+      const end = this.toMinutes(rule.end);
+      const overnight = end <= start;
+
+      // The early-morning part of an overnight rule belongs to the previous day
+      const day = overnight && minutes < end ? (date.getDay() + 6) % 7 : date.getDay();
+      if (rule.days && !rule.days.includes(day)) continue;
+
+      const inRange = overnight
+        ? minutes >= start || minutes < end
+        : minutes >= start && minutes < end;
+
+      if (inRange) {
+        return rule.limit;
+      }
+    }
+
+    return undefined;
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+    return (hours || 0) * 60 + (minutes || 0);
+  }
+}
@@ -36,7 +36,12 @@ import {
   ScheduleOutlined,
 } from '@ant-design/icons';
 import { useParams } from 'react-router-dom';
-import { useGetSyncJobQuery, useGetSyncProgressQuery } from '../../store';
+import {
+  useGetSyncJobQuery,
+  useGetSyncProgressQuery,
+  useGetSyncHistoryQuery,
+  useApproveSyncDeletionsMutation,
+} from '../../store';
 import { useSyncUpdates } from '../../hooks/useWebSocket';
 import { PageHeader } from '../layout/PageHeader';
 import { ProgressBar, LoadingSpinner, FileIcon } from '../common';
@@ -51,11 +56,22 @@ export const SyncDetails: React.FC = () => {
   const { syncId } = useParams<{ syncId: string }>();
   const [activeTab, setActiveTab] = useState('overview');
   const [lastUpdateTime, setLastUpdateTime] = useState<Date | null>(null);
+  const [historyParams, setHistoryParams] = useState({
+    page: 1,
+    limit: 20,
+    sortBy: 'startedAt',
+    sortOrder: 'desc' as 'asc' | 'desc',
+  });
 
   const { data: sync, isLoading } = useGetSyncJobQuery(syncId!);
   const { data: progress } = useGetSyncProgressQuery(syncId!, {
     pollingInterval: sync?.status === 'running' ? 1000 : 0,
   });
+  const { data: historyResponse, isFetching: isHistoryLoading } = useGetSyncHistoryQuery({
+    jobId: syncId!,
+    ...historyParams,
+  });
+  const [approveDeletions, { isLoading: isApproving }] = useApproveSyncDeletionsMutation();
 
   // Real-time WebSocket updates
   const { syncData, lastUpdate, requestStatus } = useSyncUpdates(syncId);
@@ -636,6 +652,137 @@ export const SyncDetails: React.FC = () => {
     </Card>
   );
 
+  const historyColumns = [
+    {
+      title: '시작',
+      dataIndex: 'startedAt',
+      key: 'startedAt',
+      sorter: true,
+      render: (startedAt: string) => <Text className="text-sm">{formatRelativeTime(startedAt)}</Text>,
+    },
+    {
+      title: '실행 방식',
+      dataIndex: 'trigger',
+      key: 'trigger',
+      width: 100,
+      render: (trigger: string) => (
+        <Tag>{trigger === 'cron' ? '예약' : trigger === 'manual' ? '수동' : trigger === 'watch' ? '변경 감지' : 'API'}</Tag>
+      ),
+    },
+    {
+      title: '상태',
+      dataIndex: 'status',
+      key: 'status',
+      width: 100,
+      sorter: true,
+      render: (status: string) => (
+        <Tag color={
+          status === 'completed' ? 'green' :
+          status === 'partial' ? 'orange' :
+          status === 'failed' ? 'red' :
+          status === 'running' ? 'blue' :
+          status === 'blocked' ? 'gold' : 'default'
+        }>
+          {status === 'completed' ? '완료' :
+           status === 'partial' ? '일부 실패' :
+           status === 'failed' ? '실패' :
+           status === 'running' ? '실행 중' :
+           status === 'cancelled' ? '취소됨' :
+           status === 'blocked' ? '승인 대기' : status}
+        </Tag>
+      ),
+    },
+    {
+      title: '파일',
+      dataIndex: 'filesProcessed',
+      key: 'filesProcessed',
+      sorter: true,
+      render: (_: number, record: any) => (
+        <Tooltip title={`추가 ${record.filesAdded} · 변경 ${record.filesUpdated} · 삭제 ${record.filesDeleted} · 실패 ${record.filesFailed}`}>
+          <Text className="text-sm">{record.filesProcessed}개</Text>
+        </Tooltip>
+      ),
+    },
+    {
+      title: '전송량',
+      dataIndex: 'bytesTransferred',
+      key: 'bytesTransferred',
+      sorter: true,
+      render: (bytes: number) => <Text className="text-sm">{formatFileSize(bytes)}</Text>,
+    },
+    {
+      title: '소요 시간',
+      dataIndex: 'duration',
+      key: 'duration',
+      sorter: true,
+      render: (duration?: number) => (
+        <Text className="text-sm">{duration !== undefined ? formatDuration(duration) : '-'}</Text>
+      ),
+    },
+    {
+      title: '오류',
+      dataIndex: 'errorMessage',
+      key: 'errorMessage',
+      render: (errorMessage?: string) => (
+        errorMessage ? <Text type="danger" className="text-sm">{errorMessage}</Text> : null
+      ),
+    },
+  ];
+
+  // The newest run, when the page shows runs newest first
+  const latestRun = historyParams.page === 1 && historyParams.sortBy === 'startedAt' && historyParams.sortOrder === 'desc'
+    ? historyResponse?.data?.history[0]
+    : undefined;
+
+  const handleApproveDeletions = async () => {
+    try {
+      await approveDeletions(syncId!).unwrap();
+      message.success('삭제를 승인했습니다. 동기화를 다시 시작합니다.');
+    } catch (error) {
+      message.error('삭제 승인에 실패했습니다.');
+    }
+  };
+
+  const renderHistory = () => (
+    <Card>
+      {latestRun?.status === 'blocked' && !latestRun.deletionsApprovedAt && (
+        <Alert
+          type="warning"
+          showIcon
+          className="mb-4"
+          message="삭제 승인 필요"
+          description={`${latestRun.errorMessage} (${latestRun.pendingDeletions?.length || 0}개 경로)`}
+          action={
+            <Button size="small" danger loading={isApproving} onClick={handleApproveDeletions}>
+              삭제 승인
+            </Button>
+          }
+        />
+      )}
+      <Table
+        columns={historyColumns}
+        dataSource={historyResponse?.data?.history || []}
+        rowKey="id"
+        loading={isHistoryLoading}
+        pagination={{
+          current: historyParams.page,
+          pageSize: historyParams.limit,
+          total: historyResponse?.data?.pagination.total || 0,
+          showSizeChanger: true,
+          showTotal: (total, range) => `${range[0]}-${range[1]} / 총 ${total}회`,
+        }}
+        onChange={(pagination, _filters, sorter: any) => {
+          setHistoryParams({
+            page: pagination.current || 1,
+            limit: pagination.pageSize || 20,
+            sortBy: sorter.order ? sorter.field : 'startedAt',
+            sortOrder: sorter.order === 'ascend' ? 'asc' : 'desc',
+          });
+        }}
+      />
+    </Card>
+  );
+
   const renderLogs = () => (
     <Card>
       <Timeline
@@ -763,6 +910,9 @@ export const SyncDetails: React.FC = () => {
           >
             {renderConflicts()}
           </TabPane>
+          <TabPane tab="실행 기록" key="history">
+            {renderHistory()}
+          </TabPane>
           <TabPane tab="로그" key="logs">
             {renderLogs()}
           </TabPane>
@@ -30,8 +30,8 @@ import {
   FileOutlined,
   FolderOutlined,
 } from '@ant-design/icons';
-import { useParams } from 'react-router-dom';
-import { useGetTransferJobQuery, useGetTransferProgressQuery } from '../../store';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useGetTransferJobQuery, useGetTransferProgressQuery, useRetryTransferMutation } from '../../store';
 import { useTransferUpdates } from '../../hooks/useWebSocket';
 import { PageHeader } from '../layout/PageHeader';
 import { ProgressBar, LoadingSpinner, FileIcon } from '../common';
@@ -44,6 +44,7 @@ const { TabPane } = Tabs;
 
 export const TransferDetails: React.FC = () => {
   const { transferId } = useParams<{ transferId: string }>();
+  const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState('overview');
   const [lastUpdateTime, setLastUpdateTime] = useState<Date | null>(null);
 
@@ -51,6 +52,7 @@ export const TransferDetails: React.FC = () => {
   const { data: progress } = useGetTransferProgressQuery(transferId!, {
     pollingInterval: transfer?.status === 'running' ? 1000 : 0,
   });
+  const [retryTransfer, { isLoading: isRetrying }] = useRetryTransferMutation();
 
   // Real-time WebSocket updates
   const { transferData, lastUpdate, requestStatus } = useTransferUpdates(transferId);
@@ -318,6 +320,16 @@ export const TransferDetails: React.FC = () => {
     },
   ];
 
+  const handleRetry = async () => {
+    try {
+      const result = await retryTransfer(transferId!).unwrap();
+      message.success('실패한 파일을 다시 전송합니다.');
+      navigate(`/transfers/${result.data!.transfer.id}`);
+    } catch (error: any) {
+      message.error(error?.data?.error || '재시도를 시작하지 못했습니다.');
+    }
+  };
+
   const handleAction = (action: string) => {
     switch (action) {
       case 'pause':
@@ -330,7 +342,7 @@ export const TransferDetails: React.FC = () => {
         message.info('취소 기능이 곧 구현될 예정입니다.');
         break;
       case 'retry':
-        message.info('재시도 기능이 곧 구현될 예정입니다.');
+        handleRetry();
         break;
       default:
         break;
@@ -411,6 +423,13 @@ export const TransferDetails: React.FC = () => {
               <Descriptions.Item label="마지막 업데이트">
                 {formatRelativeTime(mockTransfer.updatedAt)}
               </Descriptions.Item>
+              {currentTransfer?.parentTransferId && (
+                <Descriptions.Item label="원본 전송">
+                  <Link to={`/transfers/${currentTransfer.parentTransferId}`}>
+                    전송 #{currentTransfer.parentTransferId}
+                  </Link>
+                </Descriptions.Item>
+              )}
             </Descriptions>
           </Card>
         </Col>
@@ -597,6 +616,7 @@ export const TransferDetails: React.FC = () => {
               <Button
                 type="primary"
                 icon={<PlayCircleOutlined />}
+                loading={isRetrying}
                 onClick={() => handleAction('retry')}
               >
                 재시도
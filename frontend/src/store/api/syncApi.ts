@@ -10,6 +10,44 @@ import {
   TokenPair
 } from '../../types';
 
+// Entry of a sync preview
+interface SyncPreviewItem {
+  relativePath: string;
+  path: string; // path written or deleted
+  side: 'source' | 'destination'; // side that changes
+  type: 'file' | 'folder';
+  size?: number;
+  movedFrom?: string; // moves: the path moved away from
+}
+
+// One execution of a sync job
+interface SyncRun {
+  id: string;
+  syncJobId: string;
+  trigger: 'cron' | 'manual' | 'api' | 'watch';
+  status: 'running' | 'completed' | 'partial' | 'failed' | 'cancelled' | 'blocked';
+  filesProcessed: number;
+  filesAdded: number;
+  filesUpdated: number;
+  filesDeleted: number;
+  filesFailed: number;
+  conflicts: number;
+  bytesTransferred: number;
+  duration?: number; // seconds
+  errorMessage?: string;
+  pendingDeletions?: Array<{ side: 'source' | 'destination'; relativePath: string }>;
+  deletionsApprovedAt?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+interface SyncFileState {
+  fileId?: string;
+  size?: number;
+  modifiedAt?: string;
+  checksum?: string;
+}
+
 // Base query with automatic token handling and refresh
 const baseQuery = fetchBaseQuery({
   baseUrl: process.env.REACT_APP_API_BASE_URL || 'http://localhost:3001/api',
@@ -153,27 +191,18 @@ export const syncApi = createApi({
     // Trigger manual sync
     triggerSync: builder.mutation<APIResponse, string>({
       query: (jobId) => ({
-        url: `/sync/${jobId}/trigger`,
+        url: `/sync/${jobId}/start`,
         method: 'POST',
+        body: { trigger: 'manual' },
       }),
       invalidatesTags: (result, error, jobId) => [{ type: 'SyncJob', id: jobId }],
     }),
 
     // Get sync history for a job
     getSyncHistory: builder.query<
-      PaginatedResponse<{
-        id: string;
-        syncJobId: string;
-        status: 'completed' | 'failed' | 'partial';
-        filesProcessed: number;
-        filesAdded: number;
-        filesUpdated: number;
-        filesDeleted: number;
-        bytesTransferred: number;
-        duration: number;
-        errorMessage?: string;
-        startedAt: string;
-        completedAt: string;
+      APIResponse<{
+        history: SyncRun[];
+        pagination: PaginatedResponse<unknown>['pagination'];
       }>,
       { jobId: string } & PaginationParams
     >({
@@ -186,6 +215,57 @@ export const syncApi = createApi({
 
         return `/sync/${jobId}/history?${params.toString()}`;
       },
+      providesTags: (result, error, { jobId }) => [{ type: 'SyncJob', id: jobId }],
+    }),
+
+    // Approve the deletions a sync was stopped for and run it again
+    approveSyncDeletions: builder.mutation<APIResponse<SyncRun>, string>({
+      query: (jobId) => ({
+        url: `/sync/${jobId}/approve-deletions`,
+        method: 'POST',
+      }),
+      invalidatesTags: (result, error, jobId) => [{ type: 'SyncJob', id: jobId }],
+    }),
+
+    // Get the files handled by one run
+    getSyncRunFiles: builder.query<
+      APIResponse<{
+        run: SyncRun;
+        files: Array<{
+          id: string;
+          filePath: string;
+          fileSize?: number;
+          status: 'completed' | 'failed' | 'skipped';
+          errorMessage?: string;
+          transferredAt?: string;
+          createdAt: string;
+        }>;
+        pagination: PaginatedResponse<unknown>['pagination'];
+      }>,
+      { jobId: string; runId: string; page?: number; limit?: number }
+    >({
+      query: ({ jobId, runId, page = 1, limit = 50 }) =>
+        `/sync/${jobId}/history/${runId}/files?page=${page}&limit=${limit}`,
+    }),
+
+    // Get conflicts recorded for a job
+    getSyncConflicts: builder.query<
+      APIResponse<{
+        conflicts: Array<{
+          id: string;
+          syncJobId: string;
+          relativePath: string;
+          reason: string;
+          resolution: 'skipped' | 'renamed' | 'overwritten';
+          keptSide?: 'source' | 'destination';
+          conflictCopyPath?: string;
+          createdAt: string;
+        }>;
+        pagination: PaginatedResponse<unknown>['pagination'];
+      }>,
+      { jobId: string; page?: number; limit?: number }
+    >({
+      query: ({ jobId, page = 1, limit = 20 }) => `/sync/${jobId}/conflicts?page=${page}&limit=${limit}`,
     }),
 
     // Get sync statistics
@@ -212,25 +292,28 @@ export const syncApi = createApi({
       }),
     }),
 
-    // Get conflict resolution preview
+    // Preview the operations a sync would run, grouped by action
     getConflictPreview: builder.mutation<
       {
+        syncJobId: string;
+        syncMode: 'one_way' | 'two_way' | 'mirror';
+        uploads: SyncPreviewItem[];
+        downloads: SyncPreviewItem[];
+        createFolders: SyncPreviewItem[];
+        moves: SyncPreviewItem[];
+        deletes: SyncPreviewItem[];
         conflicts: Array<{
-          path: string;
-          type: 'file_exists' | 'newer_in_source' | 'newer_in_destination' | 'size_mismatch';
-          sourceFile: {
-            size: number;
-            modifiedAt: string;
-            checksum?: string;
-          };
-          destinationFile: {
-            size: number;
-            modifiedAt: string;
-            checksum?: string;
-          };
-          recommendedAction: 'skip' | 'overwrite' | 'rename';
+          relativePath: string;
+          reason: string;
+          sourceFile: SyncFileState;
+          destinationFile?: SyncFileState;
+          resolution: 'skip' | 'overwrite' | 'rename';
         }>;
+        totalOperations: number;
         totalConflicts: number;
+        totalBytes: number;
+        deletionWarning?: string;
+        generatedAt: string;
       },
       { syncJobId: string; dryRun?: boolean }
     >({
@@ -247,15 +330,29 @@ export const syncApi = createApi({
       providesTags: [{ type: 'SyncJob', id: 'ACTIVE' }],
     }),
 
-    // Get sync schedule overview
+    // Get scheduled runs over the next days, with runs that share a cloud account
     getSyncSchedule: builder.query<
-      Array<{
-        syncJobId: string;
-        alias: string;
-        nextRun: string;
-        lastRun?: string;
-        schedule: string;
-        isActive: boolean;
+      APIResponse<{
+        from: string;
+        to: string;
+        jobs: Array<{
+          syncJobId: string;
+          alias: string;
+          nextRun?: string;
+          lastRun?: string;
+          schedule: string;
+          isActive: boolean;
+          estimatedDuration: number;
+          runs: string[];
+          truncated: boolean;
+        }>;
+        overlaps: Array<{
+          cloudProviderId: string;
+          cloudAlias: string;
+          start: string;
+          end: string;
+          runs: Array<{ syncJobId: string; startsAt: string; endsAt: string }>;
+        }>;
       }>,
       { days?: number }
     >({
@@ -316,6 +413,9 @@ export const {
   useToggleSyncJobMutation,
   useTriggerSyncMutation,
   useGetSyncHistoryQuery,
+  useGetSyncRunFilesQuery,
+  useApproveSyncDeletionsMutation,
+  useGetSyncConflictsQuery,
   useGetSyncStatsQuery,
   useValidateSyncJobMutation,
   useGetConflictPreviewMutation,
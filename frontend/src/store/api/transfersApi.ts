@@ -191,16 +191,13 @@ export const transfersApi = createApi({
       query: ({ period = 'month' }) => `/transfers/stats?period=${period}`,
     }),
 
-    // Retry failed transfer
-    retryTransfer: builder.mutation<APIResponse, string>({
+    // Retry the failed files of a transfer as a new job
+    retryTransfer: builder.mutation<APIResponse<{ transfer: TransferJob }>, string>({
       query: (jobId) => ({
         url: `/transfers/${jobId}/retry`,
         method: 'POST',
       }),
-      invalidatesTags: (result, error, jobId) => [
-        { type: 'TransferJob', id: jobId },
-        { type: 'TransferProgress', id: jobId },
-      ],
+      invalidatesTags: [{ type: 'TransferJob', id: 'LIST' }],
     }),
 
     // Estimate transfer time
@@ -217,7 +214,12 @@ export const transfersApi = createApi({
 
     // Validate transfer request
     validateTransfer: builder.mutation<
-      { valid: boolean; errors?: string[]; warnings?: string[] },
+      {
+        valid: boolean;
+        errors?: string[];
+        warnings?: string[];
+        problems?: { code: string; message: string; path?: string }[];
+      },
       CreateTransferJobRequest
     >({
       query: (transferData) => ({
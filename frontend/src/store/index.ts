@@ -1,2 +1,2 @@
 // Store
-export { store } from './store';\nexport type { RootState, AppDispatch } from './store';\n\n// Hooks\nexport { useAppDispatch, useAppSelector } from './hooks';\n\n// Provider\nexport { ReduxProvider as default } from './provider';\n\n// Slices\nexport * from './slices/authSlice';\nexport * from './slices/uiSlice';\n\n// API\nexport { authApi } from './api/authApi';\nexport { cloudProvidersApi } from './api/cloudProvidersApi';\nexport { transfersApi } from './api/transfersApi';\nexport { syncApi } from './api/syncApi';\n\n// API Hooks - Auth\nexport {\n  useLoginMutation,\n  useRegisterMutation,\n  useRefreshTokenMutation,\n  useLogoutMutation,\n  useGetProfileQuery,\n  useUpdateProfileMutation,\n  useRequestPasswordResetMutation,\n  useResetPasswordMutation,\n  useVerifyEmailMutation,\n  useResendVerificationMutation,\n} from './api/authApi';\n\n// API Hooks - Cloud Providers\nexport {\n  useGetCloudProvidersQuery,\n  useGetSupportedProvidersQuery,\n  useConnectProviderMutation,\n  useTestConnectionMutation,\n  useDisconnectProviderMutation,\n  useUpdateProviderMutation,\n  useBrowseFilesQuery,\n  useGetFileInfoQuery,\n  useSearchFilesQuery,\n  useCreateFolderMutation,\n  useDeleteFileMutation,\n  useMoveFileMutation,\n  useCopyFileMutation,\n  useGetDownloadUrlQuery,\n  useGetQuotaQuery,\n} from './api/cloudProvidersApi';\n\n// API Hooks - Transfers\nexport {\n  useGetTransferJobsQuery,\n  useGetTransferJobQuery,\n  useCreateTransferJobMutation,\n  useStartTransferMutation,\n  usePauseTransferMutation,\n  useResumeTransferMutation,\n  useCancelTransferMutation,\n  useDeleteTransferMutation,\n  useGetTransferProgressQuery,\n  useGetTransferStatsQuery,\n  useRetryTransferMutation,\n  useEstimateTransferMutation,\n  useValidateTransferMutation,\n  useGetActiveTransfersQuery,\n  useBulkStartTransfersMutation,\n  useBulkPauseTransfersMutation,\n  useBulkCancelTransfersMutation,\n  useBulkDeleteTransfersMutation,\n} from './api/transfersApi';\n\n// API Hooks - Sync\nexport {\n  useGetSyncJobsQuery,\n  useGetSyncJobQuery,\n  useCreateSyncJobMutation,\n  useUpdateSyncJobMutation,\n  useDeleteSyncJobMutation,\n  useToggleSyncJobMutation,\n  useTriggerSyncMutation,\n  useGetSyncHistoryQuery,\n  useGetSyncStatsQuery,\n  useValidateSyncJobMutation,\n  useGetConflictPreviewMutation,\n  useGetActiveSyncJobsQuery,\n  useGetSyncScheduleQuery,\n  useBulkToggleSyncJobsMutation,\n  useBulkDeleteSyncJobsMutation,\n  useBulkTriggerSyncJobsMutation,\n  useTestSyncPathsMutation,\n} from './api/syncApi';
\ No newline at end of file
+export { store } from './store';\nexport type { RootState, AppDispatch } from './store';\n\n// Hooks\nexport { useAppDispatch, useAppSelector } from './hooks';\n\n// Provider\nexport { ReduxProvider as default } from './provider';\n\n// Slices\nexport * from './slices/authSlice';\nexport * from './slices/uiSlice';\n\n// API\nexport { authApi } from './api/authApi';\nexport { cloudProvidersApi } from './api/cloudProvidersApi';\nexport { transfersApi } from './api/transfersApi';\nexport { syncApi } from './api/syncApi';\n\n// API Hooks - Auth\nexport {\n  useLoginMutation,\n  useRegisterMutation,\n  useRefreshTokenMutation,\n  useLogoutMutation,\n  useGetProfileQuery,\n  useUpdateProfileMutation,\n  useRequestPasswordResetMutation,\n  useResetPasswordMutation,\n  useVerifyEmailMutation,\n  useResendVerificationMutation,\n} from './api/authApi';\n\n// API Hooks - Cloud Providers\nexport {\n  useGetCloudProvidersQuery,\n  useGetSupportedProvidersQuery,\n  useConnectProviderMutation,\n  useTestConnectionMutation,\n  useDisconnectProviderMutation,\n  useUpdateProviderMutation,\n  useBrowseFilesQuery,\n  useGetFileInfoQuery,\n  useSearchFilesQuery,\n  useCreateFolderMutation,\n  useDeleteFileMutation,\n  useMoveFileMutation,\n  useCopyFileMutation,\n  useGetDownloadUrlQuery,\n  useGetQuotaQuery,\n} from './api/cloudProvidersApi';\n\n// API Hooks - Transfers\nexport {\n  useGetTransferJobsQuery,\n  useGetTransferJobQuery,\n  useCreateTransferJobMutation,\n  useStartTransferMutation,\n  usePauseTransferMutation,\n  useResumeTransferMutation,\n  useCancelTransferMutation,\n  useDeleteTransferMutation,\n  useGetTransferProgressQuery,\n  useGetTransferStatsQuery,\n  useRetryTransferMutation,\n  useEstimateTransferMutation,\n  useValidateTransferMutation,\n  useGetActiveTransfersQuery,\n  useBulkStartTransfersMutation,\n  useBulkPauseTransfersMutation,\n  useBulkCancelTransfersMutation,\n  useBulkDeleteTransfersMutation,\n} from './api/transfersApi';\n\n// API Hooks - Sync\nexport {\n  useGetSyncJobsQuery,\n  useGetSyncJobQuery,\n  useCreateSyncJobMutation,\n  useUpdateSyncJobMutation,\n  useDeleteSyncJobMutation,\n  useToggleSyncJobMutation,\n  useTriggerSyncMutation,\n  useGetSyncHistoryQuery,\n  useGetSyncRunFilesQuery,\n  useGetSyncConflictsQuery,\n  useApproveSyncDeletionsMutation,\n  useGetSyncStatsQuery,\n  useValidateSyncJobMutation,\n  useGetConflictPreviewMutation,\n  useGetActiveSyncJobsQuery,\n  useGetSyncScheduleQuery,\n  useBulkToggleSyncJobsMutation,\n  useBulkDeleteSyncJobsMutation,\n  useBulkTriggerSyncJobsMutation,\n  useTestSyncPathsMutation,\n} from './api/syncApi';
\ No newline at end of file
@@ -109,6 +109,7 @@ export interface TransferJob {
   filters?: FileFilter;
   options?: TransferOptions;
   errorMessage?: string;
+  parentTransferId?: string;
   startedAt?: string;
   completedAt?: string;
   createdAt: string;